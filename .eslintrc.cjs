@@ -11,6 +11,8 @@ module.exports = {
     'plugin:@typescript-eslint/recommended',
     'plugin:prettier/recommended',
   ],
+  // Generated from src/openapi/openapi.json by `pnpm openapi`
+  ignorePatterns: ['src/types/openapi.ts'],
   overrides: [],
   parser: '@typescript-eslint/parser',
   parserOptions: {
@@ -2,9 +2,18 @@ import { Outlet, RouteObject } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import loadable from '@loadable/component';
 
+// Imported from their modules, the index of the components would bundle every page with the app
+import CurrentUser from './components/CurrentUser/CurrentUser';
+import RequireAuth from './components/RequireAuth/RequireAuth';
+
 const NotFound = loadable(() => import('@pages/NotFound'));
 const Home = loadable(() => import('@pages/Home'));
 const EmployeeList = loadable(() => import('@pages/EmployeeList'));
+const EmployeeDetail = loadable(() => import('@pages/EmployeeDetail'));
+const ImportEmployees = loadable(() => import('@pages/ImportEmployees'));
+const Departments = loadable(() => import('@pages/Departments'));
+const OrgChart = loadable(() => import('@pages/OrgChart'));
+const Login = loadable(() => import('@pages/Login'));
 
 type AppProps = {
   children?: React.ReactNode;
@@ -34,16 +43,53 @@ const appRoute: RouteObject = {
   ),
   children: [
     {
-      path: '',
-      element: <Home />,
-    },
-    {
-      path: 'employee-list',
-      element: <EmployeeList />,
+      path: 'login',
+      element: <Login />,
     },
+    // Every other page requires a signed in user
     {
-      path: '*',
-      element: <NotFound />,
+      element: (
+        <RequireAuth>
+          <>
+            <CurrentUser />
+            <Outlet />
+          </>
+        </RequireAuth>
+      ),
+      children: [
+        {
+          path: '',
+          element: <Home />,
+        },
+        {
+          path: 'employee-list',
+          element: <EmployeeList />,
+        },
+        {
+          path: 'employees/:id',
+          element: <EmployeeDetail />,
+        },
+        {
+          path: 'import-employees',
+          element: (
+            <RequireAuth permission="edit">
+              <ImportEmployees />
+            </RequireAuth>
+          ),
+        },
+        {
+          path: 'departments',
+          element: <Departments />,
+        },
+        {
+          path: 'org-chart',
+          element: <OrgChart />,
+        },
+        {
+          path: '*',
+          element: <NotFound />,
+        },
+      ],
     },
   ],
 };
@@ -1,9 +1,74 @@
 import { createServer, Factory, Model, Response, Server } from 'miragejs';
 import { faker } from '@faker-js/faker';
-import { GridSortDirection } from '@mui/x-data-grid';
 
-import type { Employee, StateAbbreviation } from '@types';
-import { DEPARTMENTS, STATES } from '@types';
+import type {
+  AuditEvent,
+  BatchEmployeesRequest,
+  BatchEmployeesResult,
+  BulkCreateEmployeesResult,
+  DepartmentRecord,
+  EmployeeField,
+  EmployeeFilter,
+  EmployeeRecord,
+  EmployeeRecordAttributes,
+  EmployeeSort,
+  EmployeesRange,
+  FilterLogic,
+  LoginRequest,
+  RefreshSessionRequest,
+  SessionRecord,
+  StateAbbreviation,
+  UserRecord,
+} from '@types';
+import { STATES } from '@types';
+import {
+  EMPLOYEE_FIELD_LABELS,
+  getMaskedFields,
+  isFieldMasked,
+  maskAuditEvent,
+  maskPersonalData,
+} from '@utils';
+import {
+  matchFilters,
+  matchQuickFilterDay,
+  parseFilterLogic,
+  parseFilters,
+} from './filters';
+import { getAuditEvents, recordAuditEvent } from './audit';
+import {
+  authorize,
+  closeSession,
+  findUserByCredentials,
+  openSession,
+  refreshSession,
+  seedUsers,
+} from './auth';
+import {
+  employeeETag,
+  matchesIfMatch,
+  nextVersion,
+  preconditionFailedResponse,
+  preconditionRequiredResponse,
+} from './concurrency';
+import {
+  countDepartmentEmployees,
+  DEFAULT_DEPARTMENTS,
+  findDepartmentByName,
+  isSameDepartmentName,
+  serializeDepartment,
+  withCatalogueDepartment,
+} from './departments';
+import findDuplicateEmployees, { maskDuplicate } from './duplicates';
+import readHeader from './headers';
+import { getReports } from './hierarchy';
+import { parseRange } from './pagination';
+import {
+  loadSnapshot,
+  persistAfterMutations,
+  saveSnapshot,
+} from './persistence';
+import { compareEmployees, parseSort } from './sorting';
+import { invalidEmployeeResponse, validateEmployeeAttrs } from './validation';
 
 // environment = production | development | test
 const environment = import.meta.env.MODE;
@@ -11,26 +76,88 @@ const namespace = import.meta.env.VITE_API_URL;
 // DATABASE_LENGTH : Number of employees in the DB
 const DATABASE_LENGTH = +import.meta.env.VITE_DATABASE_LENGTH;
 const SERVER_PAGE_SIZE = +import.meta.env.VITE_PAGE_LENGTH;
+// FAKER_SEED : Seed of faker, the demo data being random if it is not defined
+const FAKER_SEED = import.meta.env.VITE_FAKER_SEED
+  ? +import.meta.env.VITE_FAKER_SEED
+  : undefined;
+// The dates of the seeded demo data are relative to a fixed date, so that they are the same from one day to another
+const SEED_REFERENCE_DATE =
+  FAKER_SEED === undefined ? undefined : new Date('2023-01-01T00:00:00.000Z');
+
+/**
+ * @function
+ * @name toSeedDay
+ * @param {Date} date - a date generated by faker
+ * @returns {string} - the UTC day of the date, written yyyy-MM-dd: the seeded days are the same in every time zone
+ */
+const toSeedDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export interface MockServerOptions {
+  // Receives the routes instead of pretender, e.g. to serve them over HTTP
+  interceptor?: unknown;
+}
+
+/**
+ * @function
+ * @name seedDatabase
+ * @param {Server} server - the Mirage server, with an empty database
+ * @description
+ * The function creates the demo accounts, the default departments and the demo employees.
+ * With a faker seed, the demo data are the same on every run. Faker is seeded randomly afterwards,
+ * so that the ids generated later don't repeat the ones of the demo data.
+ */
+function seedDatabase(server: Server) {
+  if (FAKER_SEED !== undefined) faker.seed(FAKER_SEED);
+
+  seedUsers(server);
+  DEFAULT_DEPARTMENTS.forEach((name) =>
+    server.create('department', { id: faker.datatype.uuid(), name })
+  );
+  const employees = server.createList('employee', DATABASE_LENGTH);
+  // The first employees are the top managers, every other one reports to an employee created before them
+  const TOP_MANAGERS_COUNT = 3;
+  employees.forEach((employee, index) => {
+    if (index < TOP_MANAGERS_COUNT) return;
+    const manager =
+      employees[faker.datatype.number({ min: 0, max: Math.floor(index / 4) })];
+    employee.update({ managerId: manager.id });
+  });
+
+  if (FAKER_SEED !== undefined) faker.seed();
+}
 
 /**
  * @function
  * @name MockServer
+ * @param {MockServerOptions} [options] - the interceptor of the requests, pretender by default
  * @returns {Server} - A server instance with employees model and factory.
  * @description
  * The function creates a server instance with an employees model and factory.
- * The server is seeded with a list of employees with a certain length.
+ * The server is seeded with the default departments and a list of employees with a certain length.
+ * The database is saved in the localStorage after every change and restored on boot, until the demo data are reset.
  * The server has routes that handle pagination, filtering, and sorting of the employees data.
+ * Every request must be authenticated by the access token of a session, and allowed by the role of the user (401 and 403 otherwise).
+ * Every change made to an employee is recorded as an audit event, with the user who made it.
+ * Employees report to a manager, the hierarchy being kept free of cycles.
+ * Created and updated employees are validated with the rules shared with the client, invalid ones get a 422 response.
+ * Likely duplicates, scored on the name, the date of birth and the address, must be confirmed to be created.
  */
-function MockServer(): Server {
-  return createServer({
+function MockServer(options: MockServerOptions = {}): Server {
+  const mockServer = createServer({
     environment,
+    // The interceptor is not declared by the Mirage typings
+    ...(options.interceptor ? { interceptor: options.interceptor } : {}),
 
     models: {
-      employee: Model.extend<Partial<Employee>>({}),
+      employee: Model.extend<Partial<EmployeeRecord>>({}),
+      auditEvent: Model.extend<Partial<AuditEvent>>({}),
+      department: Model.extend<Partial<DepartmentRecord>>({}),
+      user: Model.extend<Partial<UserRecord>>({}),
+      session: Model.extend<Partial<SessionRecord>>({}),
     },
 
     factories: {
-      employee: Factory.extend<Partial<Employee>>({
+      employee: Factory.extend<Partial<EmployeeRecord>>({
         firstName() {
           const sex = faker.name.sexType();
           return faker.name.firstName(sex);
@@ -39,13 +166,15 @@ function MockServer(): Server {
           return faker.name.lastName();
         },
         startDate() {
-          return faker.date.past(10);
+          return toSeedDay(faker.date.past(10, SEED_REFERENCE_DATE));
         },
         department() {
-          return faker.helpers.arrayElement(Object.values(DEPARTMENTS));
+          return faker.helpers.arrayElement(DEFAULT_DEPARTMENTS);
         },
         dateOfBirth() {
-          return faker.date.birthdate();
+          return toSeedDay(
+            faker.date.birthdate({ refDate: SEED_REFERENCE_DATE })
+          );
         },
         street() {
           return faker.address.streetAddress();
@@ -59,45 +188,158 @@ function MockServer(): Server {
           );
         },
         zipcode() {
-          return +faker.random.numeric(5);
+          return faker.random.numeric(5, { allowLeadingZeros: true });
+        },
+        managerId() {
+          return null;
+        },
+        archivedAt() {
+          return null;
+        },
+        version() {
+          return 1;
         },
       }),
     },
 
     seeds(server) {
-      server.createList('employee', DATABASE_LENGTH);
+      const snapshot = loadSnapshot();
+      if (snapshot) {
+        server.db.loadData(snapshot);
+      } else {
+        seedDatabase(server);
+        saveSnapshot(server);
+      }
     },
 
     routes() {
       this.namespace = namespace;
 
-      // TODO: filtering : /employees?filters=dupont&16_05_2002&Sales
-      // TODO: sorting : /employees?sort_by=+firstname
-      // TODO: pagination : /employees?page=3
+      /**
+       * SIGN IN: a new session is opened for the user
+       */
+      this.post('/auth/login', (schema, request) => {
+        const { username, password }: Partial<LoginRequest> = JSON.parse(
+          request.requestBody
+        );
+        const user = findUserByCredentials(schema, username, password);
+        if (!user) {
+          return new Response(
+            401,
+            {},
+            {
+              error: 'Invalid username or password',
+            }
+          );
+        }
+        return openSession(schema, user);
+      });
+
+      /**
+       * REFRESH a session whose access token has expired
+       */
+      this.post('/auth/refresh', (schema, request) => {
+        const { refreshToken }: Partial<RefreshSessionRequest> = JSON.parse(
+          request.requestBody
+        );
+        const session = refreshSession(schema, refreshToken);
+        if (!session) {
+          return new Response(
+            401,
+            {},
+            {
+              error: 'Session expired, please sign in again',
+            }
+          );
+        }
+        return session;
+      });
+
+      /**
+       * SIGN OUT: the session is closed
+       */
+      this.post('/auth/logout', (schema, request) => {
+        closeSession(schema, request);
+        return new Response(204);
+      });
+
       /**
        * READ employees
+       * Column filters are given as query params: ?filter[]=department:is:Engineering&filter[]=zipcode:startsWith:90&logic=and
+       * Archived employees are excluded, unless ?archived=true which lists only them
+       * The sort fields and their orders are joined by '_' in the path, e.g. /sort/lastName_firstName/asc_desc, 'noSort' for none
+       * The employees sent are chosen by ?offset=25&limit=25, whatever the size of the pages of the client,
+       * by default the page of the path holds VITE_PAGE_LENGTH employees
        */
       this.get(
         '/employees/page/:page/sort/:sortingField/:sortingOrder/filters/:filters',
         (schema, request) => {
+          const user = authorize(schema, request, 'read');
+          if (user instanceof Response) return user;
+
           // * Getting params from URL
           const { params } = request;
-          const page = params.page || 0;
 
-          const employees = schema.all('employee');
-          const sortingField: keyof Employee =
-            params.sortingField as keyof Employee;
-          const sortingOrder: GridSortDirection =
-            params.sortingOrder as GridSortDirection;
+          const archived = request.queryParams.archived === 'true';
+          const employees = schema
+            .all('employee')
+            .filter(
+              (employee: Partial<EmployeeRecord>) =>
+                Boolean(employee.archivedAt) === archived
+            );
           const filtersParam: string = params.filters;
 
+          // * Parsing the sort criteria from the path and the column filters from query params
+          let sorts: EmployeeSort[];
+          let columnFilters: EmployeeFilter[];
+          let columnFiltersLogic: FilterLogic;
+          let range: EmployeesRange;
+          try {
+            range = parseRange(
+              params.page,
+              request.queryParams.offset,
+              request.queryParams.limit,
+              SERVER_PAGE_SIZE
+            );
+            sorts = parseSort(params.sortingField, params.sortingOrder);
+            columnFilters = parseFilters(
+              request.queryParams.filter as string | string[] | undefined
+            );
+            columnFiltersLogic = parseFilterLogic(request.queryParams.logic);
+          } catch (err) {
+            return new Response(
+              400,
+              {},
+              {
+                error: (err as Error).message,
+              }
+            );
+          }
+
+          // * The personal data hidden from the user can't be searched, filtered nor sorted either
+          const maskedFields = getMaskedFields(user);
+          const forbiddenField = [...sorts, ...columnFilters].find(
+            ({ field }) => isFieldMasked(maskedFields, field)
+          )?.field;
+          if (forbiddenField) {
+            return new Response(
+              403,
+              {},
+              {
+                error: `Forbidden: the ${EMPLOYEE_FIELD_LABELS[forbiddenField]} is hidden from your role, it can't be filtered nor sorted`,
+              }
+            );
+          }
+          const isVisible = (field: EmployeeField) =>
+            !isFieldMasked(maskedFields, field);
+
           // * Filtering the DB
           let employeesFiltered;
           if (filtersParam && filtersParam !== 'noFilter') {
             const filtersArray = filtersParam.split('_');
             if (filtersArray && filtersArray.length) {
               employeesFiltered = employees.filter(
-                (employee: Partial<Employee>) => {
+                (employee: Partial<EmployeeRecord>) => {
                   let isAllFiltersIncluded: boolean | undefined = true;
                   let isFilterIncludedAnywhere: boolean | undefined = false;
                   filtersArray.forEach((filter) => {
@@ -105,20 +347,15 @@ function MockServer(): Server {
                       employee.firstName?.includes(filter) ||
                       employee.lastName?.includes(filter) ||
                       employee.department?.includes(filter) ||
-                      employee.street?.includes(filter) ||
+                      (isVisible('street') &&
+                        employee.street?.includes(filter)) ||
                       employee.city?.includes(filter) ||
                       employee.state?.includes(filter) ||
-                      employee.startDate
-                        ?.toLocaleDateString()
-                        ?.split('/')
-                        ?.join('-')
-                        ?.includes(filter) ||
-                      employee.dateOfBirth
-                        ?.toLocaleDateString()
-                        ?.split('/')
-                        ?.join('-')
-                        ?.includes(filter) ||
-                      employee.zipcode?.toString()?.includes(filter);
+                      matchQuickFilterDay(employee.startDate, filter) ||
+                      (isVisible('dateOfBirth') &&
+                        matchQuickFilterDay(employee.dateOfBirth, filter)) ||
+                      (isVisible('zipcode') &&
+                        employee.zipcode?.toString()?.includes(filter));
 
                     isAllFiltersIncluded =
                       isAllFiltersIncluded && isFilterIncludedAnywhere;
@@ -132,74 +369,317 @@ function MockServer(): Server {
 
           if (!employeesFiltered) employeesFiltered = employees;
 
-          // * Sorting the filtered data
-          let employeesSorted;
-          if (sortingField && sortingOrder) {
-            employeesSorted = employeesFiltered.sort(
-              (a: Partial<Employee>, b: Partial<Employee>) => {
-                let sortingResult = 0;
-
-                const fieldA: Employee[keyof Employee] | undefined =
-                  a[sortingField];
-                const fieldB: Employee[keyof Employee] | undefined =
-                  b[sortingField];
-
-                if (!fieldA || !fieldB) return sortingResult;
-
-                if (typeof fieldA === 'string' && typeof fieldB === 'string') {
-                  sortingResult = fieldA.localeCompare(fieldB);
-                } else {
-                  sortingResult = (fieldA as number) - (fieldB as number);
-                }
-
-                if (sortingOrder === 'desc') return -sortingResult;
-                return sortingResult;
-              }
+          if (columnFilters.length) {
+            employeesFiltered = employeesFiltered.filter(
+              (employee: Partial<EmployeeRecord>) =>
+                matchFilters(employee, columnFilters, columnFiltersLogic)
             );
           }
 
-          if (!employeesSorted) employeesSorted = employeesFiltered;
+          // * Sorting the filtered data
+          const employeesSorted = sorts.length
+            ? employeesFiltered.sort(
+                (a: Partial<EmployeeRecord>, b: Partial<EmployeeRecord>) =>
+                  compareEmployees(a, b, sorts)
+              )
+            : employeesFiltered;
 
           // * Pagination
           const slice = employeesSorted.slice(
-            +page * SERVER_PAGE_SIZE,
-            (+page + 1) * SERVER_PAGE_SIZE
+            range.offset,
+            range.offset + range.limit
           );
 
           return {
             total: employeesSorted.length,
-            employees: slice.models,
+            employees: slice.models.map((employee) =>
+              maskPersonalData(employee.attrs as EmployeeRecord, user)
+            ),
           };
         }
       );
 
+      /**
+       * READ the top of the hierarchy: the employees reporting to nobody
+       */
+      this.get('/org-chart', (schema, request) => {
+        const user = authorize(schema, request, 'read');
+        if (user instanceof Response) return user;
+        return {
+          reports: getReports(schema, null, false).map((report) =>
+            maskPersonalData(report, user)
+          ),
+        };
+      });
+
+      /**
+       * READ the employees reporting to one employee
+       * Direct reports only, unless ?transitive=true which lists the reports of the reports too
+       */
+      this.get('/employees/:id/reports', (schema, request) => {
+        const user = authorize(schema, request, 'read');
+        if (user instanceof Response) return user;
+        const { id } = request.params;
+        if (!schema.findBy('employee', { id })) {
+          return new Response(
+            404,
+            {},
+            {
+              error: 'Employee not found',
+              id,
+            }
+          );
+        }
+        const transitive = request.queryParams.transitive === 'true';
+        return {
+          reports: getReports(schema, id, transitive).map((report) =>
+            maskPersonalData(report, user)
+          ),
+        };
+      });
+
+      /**
+       * READ the change history of one employee
+       * Deleted employees keep their history
+       */
+      this.get('/employees/:id/history', (schema, request) => {
+        const user = authorize(schema, request, 'read');
+        if (user instanceof Response) return user;
+        const { id } = request.params;
+        const events = getAuditEvents(schema, id);
+        if (!events.length && !schema.findBy('employee', { id })) {
+          return new Response(
+            404,
+            {},
+            {
+              error: 'Employee not found',
+              id,
+            }
+          );
+        }
+        return { events: events.map((event) => maskAuditEvent(event, user)) };
+      });
+
+      /**
+       * READ one employee
+       */
+      this.get('/employees/:id', (schema, request) => {
+        const user = authorize(schema, request, 'read');
+        if (user instanceof Response) return user;
+        const { id } = request.params;
+        const employee = schema.findBy('employee', { id });
+        if (!employee) {
+          return new Response(
+            404,
+            {},
+            {
+              error: 'Employee not found',
+              id,
+            }
+          );
+        }
+        return new Response(
+          200,
+          { ETag: employeeETag(employee) },
+          { employee: maskPersonalData(employee.attrs as EmployeeRecord, user) }
+        );
+      });
+
       /**
        * CREATE employee
        */
       this.post('/employees', (schema, request) => {
-        const attrs: Omit<Employee, 'id'> = JSON.parse(request.requestBody);
-        const employee = schema.findBy('employee', {
-          firstName: attrs.firstName,
-          lastName: attrs.lastName,
-        });
-        if (employee) {
+        const user = authorize(schema, request, 'edit');
+        if (user instanceof Response) return user;
+        // The department is stored as written in the catalogue, whatever the case it was given in
+        const attrs: EmployeeRecordAttributes = withCatalogueDepartment(
+          schema,
+          JSON.parse(request.requestBody)
+        );
+        const errors = validateEmployeeAttrs(schema, attrs);
+        if (Object.keys(errors).length) return invalidEmployeeResponse(errors);
+        // The likely duplicates must be confirmed with ?allowDuplicates=true
+        const duplicates = findDuplicateEmployees(schema, attrs);
+        if (
+          duplicates.length &&
+          request.queryParams.allowDuplicates !== 'true'
+        ) {
           return new Response(
             409,
             {},
             {
-              error: 'Employee already exists',
+              error: 'Possible duplicate employee',
+              duplicates: duplicates.map((duplicate) =>
+                maskDuplicate(duplicate, user)
+              ),
             }
           );
         }
         const id = faker.datatype.uuid();
-        schema.create('employee', { id, ...attrs });
+        schema.create('employee', { id, ...attrs, version: 1 });
+        recordAuditEvent(schema, user, 'CREATE', id, undefined, attrs);
         return { id };
       });
 
+      /**
+       * Look for the likely duplicates of an employee before creating it
+       */
+      this.post('/employees/duplicates', (schema, request) => {
+        const user = authorize(schema, request, 'edit');
+        if (user instanceof Response) return user;
+        const attrs: Partial<EmployeeRecord> = JSON.parse(request.requestBody);
+        return {
+          duplicates: findDuplicateEmployees(schema, attrs).map((duplicate) =>
+            maskDuplicate(duplicate, user)
+          ),
+        };
+      });
+
+      /**
+       * CREATE employees in bulk
+       * Each employee is created independently, the response reports the status of every row
+       */
+      this.post('/employees/bulk', (schema, request) => {
+        const user = authorize(schema, request, 'edit');
+        if (user instanceof Response) return user;
+        const { employees }: { employees: EmployeeRecordAttributes[] } =
+          JSON.parse(request.requestBody);
+        if (!Array.isArray(employees)) {
+          return new Response(
+            400,
+            {},
+            {
+              error: 'Bad Request: employees must be an array',
+            }
+          );
+        }
+
+        const allowDuplicates = request.queryParams.allowDuplicates === 'true';
+        const results: BulkCreateEmployeesResult[] = employees.map(
+          (employeeAttrs, index) => {
+            const attrs = withCatalogueDepartment(schema, employeeAttrs);
+            const errors = validateEmployeeAttrs(schema, attrs);
+            if (Object.keys(errors).length) {
+              return { index, status: 422, error: 'Invalid employee', errors };
+            }
+            const [duplicate] = findDuplicateEmployees(schema, attrs);
+            if (duplicate && !allowDuplicates) {
+              return {
+                index,
+                status: 409,
+                error: `Possible duplicate of ${duplicate.employee.firstName} ${duplicate.employee.lastName}`,
+              };
+            }
+            const id = faker.datatype.uuid();
+            schema.create('employee', { id, ...attrs, version: 1 });
+            recordAuditEvent(schema, user, 'CREATE', id, undefined, attrs);
+            return { index, status: 201, id };
+          }
+        );
+
+        return { results };
+      });
+
+      /**
+       * Apply the same action to several employees
+       * Each employee is processed independently, the response reports the status of every id
+       */
+      this.post('/employees/batch', (schema, request) => {
+        const { action, ids, changes }: BatchEmployeesRequest = JSON.parse(
+          request.requestBody
+        );
+        // Archiving and updating the employees are allowed separately
+        const user = authorize(
+          schema,
+          request,
+          action === 'archive' ? 'archive' : 'edit'
+        );
+        if (user instanceof Response) return user;
+        if (!Array.isArray(ids) || !ids.length) {
+          return new Response(
+            400,
+            {},
+            {
+              error: 'Bad Request: ids must be a non empty array',
+            }
+          );
+        }
+        if (action !== 'archive' && action !== 'update') {
+          return new Response(
+            400,
+            {},
+            {
+              error: `Bad Request: unknown action '${action}' (expected: archive, update)`,
+            }
+          );
+        }
+        const department = findDepartmentByName(schema, changes?.department);
+        if (action === 'update' && !department) {
+          return new Response(
+            400,
+            {},
+            {
+              error: 'Bad Request: changes must contain a valid department',
+            }
+          );
+        }
+
+        const results: BatchEmployeesResult[] = ids.map((id) => {
+          const employee = schema.findBy('employee', { id });
+          if (!employee) {
+            return { id, status: 404, error: 'Employee not found' };
+          }
+          if (employee.archivedAt) {
+            return {
+              id,
+              status: 409,
+              error:
+                action === 'archive'
+                  ? 'Employee is already archived'
+                  : 'Archived employees cannot be updated, restore it first',
+            };
+          }
+          const before = { ...employee.attrs };
+          if (action === 'archive') {
+            employee.update({
+              archivedAt: new Date().toISOString(),
+              version: nextVersion(employee),
+            });
+            recordAuditEvent(
+              schema,
+              user,
+              'ARCHIVE',
+              id,
+              employee.attrs,
+              employee.attrs
+            );
+          } else {
+            employee.update({
+              department: (department?.attrs as DepartmentRecord).name,
+              version: nextVersion(employee),
+            });
+            recordAuditEvent(
+              schema,
+              user,
+              'UPDATE',
+              id,
+              before,
+              employee.attrs
+            );
+          }
+          return { id, status: 200 };
+        });
+
+        return { results };
+      });
+
       /**
        * DELETE employee
+       * The employee is only archived, it can be restored or purged afterwards
        */
       this.delete('/employees/:id', (schema, request) => {
+        const user = authorize(schema, request, 'archive');
+        if (user instanceof Response) return user;
         const { id } = request.params;
         const employee = schema.findBy('employee', { id });
         if (!employee) {
@@ -211,7 +691,116 @@ function MockServer(): Server {
             }
           );
         }
+        if (employee.archivedAt) {
+          return new Response(
+            409,
+            {},
+            {
+              error: 'Employee is already archived',
+            }
+          );
+        }
+        employee.update({
+          archivedAt: new Date().toISOString(),
+          version: nextVersion(employee),
+        });
+        recordAuditEvent(
+          schema,
+          user,
+          'ARCHIVE',
+          id,
+          employee.attrs,
+          employee.attrs
+        );
+        return { id };
+      });
+
+      /**
+       * RESTORE an archived employee
+       */
+      this.post('/employees/:id/restore', (schema, request) => {
+        const user = authorize(schema, request, 'archive');
+        if (user instanceof Response) return user;
+        const { id } = request.params;
+        const employee = schema.findBy('employee', { id });
+        if (!employee) {
+          return new Response(
+            404,
+            {},
+            {
+              error: 'Employee not found',
+              id,
+            }
+          );
+        }
+        if (!employee.archivedAt) {
+          return new Response(
+            409,
+            {},
+            {
+              error: 'Employee is not archived',
+            }
+          );
+        }
+        employee.update({ archivedAt: null, version: nextVersion(employee) });
+        recordAuditEvent(
+          schema,
+          user,
+          'RESTORE',
+          id,
+          employee.attrs,
+          employee.attrs
+        );
+        return { id };
+      });
+
+      /**
+       * PURGE an archived employee: the record is destroyed permanently
+       */
+      this.post('/employees/:id/purge', (schema, request) => {
+        const user = authorize(schema, request, 'purge');
+        if (user instanceof Response) return user;
+        const { id } = request.params;
+        const employee = schema.findBy('employee', { id });
+        if (!employee) {
+          return new Response(
+            404,
+            {},
+            {
+              error: 'Employee not found',
+              id,
+            }
+          );
+        }
+        if (!employee.archivedAt) {
+          return new Response(
+            409,
+            {},
+            {
+              error: 'Only archived employees can be purged',
+            }
+          );
+        }
+        recordAuditEvent(schema, user, 'DELETE', id, employee.attrs, undefined);
         employee.destroy();
+        // The employees reporting to the purged one move to the top of the hierarchy
+        schema
+          .where(
+            'employee',
+            (report: Partial<EmployeeRecord>) => report.managerId === id
+          )
+          .models.forEach((report) => {
+            const before = { ...report.attrs } as EmployeeRecord;
+            report.update({ managerId: null, version: nextVersion(report) });
+            recordAuditEvent(
+              schema,
+              user,
+              'UPDATE',
+              before.id,
+              before,
+              report.attrs
+            );
+          });
         return { id };
       });
 
@@ -219,8 +808,13 @@ function MockServer(): Server {
        * UPDATE employee
        */
       this.put('/employees/:id', (schema, request) => {
+        const user = authorize(schema, request, 'edit');
+        if (user instanceof Response) return user;
         const { id } = request.params;
-        const attrs: Employee = JSON.parse(request.requestBody);
+        const attrs: EmployeeRecord = withCatalogueDepartment(
+          schema,
+          JSON.parse(request.requestBody)
+        );
         const employee = schema.findBy('employee', { id });
         if (!employee) {
           return new Response(
@@ -231,11 +825,217 @@ function MockServer(): Server {
             }
           );
         }
-        employee.update(attrs);
+        if (employee.archivedAt) {
+          return new Response(
+            409,
+            {},
+            {
+              error: 'Archived employees cannot be updated, restore it first',
+            }
+          );
+        }
+        // Optimistic concurrency: the edited version must be given, and still be the current one
+        const ifMatch = readHeader(request.requestHeaders, 'If-Match');
+        if (!ifMatch) return preconditionRequiredResponse();
+        if (!matchesIfMatch(ifMatch, employee.attrs)) {
+          return preconditionFailedResponse(
+            maskPersonalData(employee.attrs as EmployeeRecord, user)
+          );
+        }
+        const errors = validateEmployeeAttrs(schema, attrs, id);
+        if (Object.keys(errors).length) return invalidEmployeeResponse(errors);
+        const before = { ...employee.attrs };
+        employee.update({
+          ...attrs,
+          id,
+          archivedAt: null,
+          version: nextVersion(employee),
+        });
+        recordAuditEvent(schema, user, 'UPDATE', id, before, employee.attrs);
+        return new Response(200, { ETag: employeeETag(employee) }, { id });
+      });
+
+      /**
+       * READ departments, with their number of employees
+       */
+      this.get('/departments', (schema, request) => {
+        const user = authorize(schema, request, 'read');
+        if (user instanceof Response) return user;
+        const departments = schema
+          .all('department')
+          .models.map((department) =>
+            serializeDepartment(schema, department.attrs as DepartmentRecord)
+          )
+          .sort((a, b) => a.name.localeCompare(b.name));
+        return { departments };
+      });
+
+      /**
+       * CREATE department
+       */
+      this.post('/departments', (schema, request) => {
+        const user = authorize(schema, request, 'manageDepartments');
+        if (user instanceof Response) return user;
+        const { name }: Partial<DepartmentRecord> = JSON.parse(
+          request.requestBody
+        );
+        if (!name?.trim()) {
+          return new Response(
+            400,
+            {},
+            {
+              error: 'Bad Request: the name of the department is required',
+            }
+          );
+        }
+        if (findDepartmentByName(schema, name)) {
+          return new Response(
+            409,
+            {},
+            {
+              error: `Department '${name.trim()}' already exists`,
+            }
+          );
+        }
+        const department = schema.create('department', {
+          id: faker.datatype.uuid(),
+          name: name.trim(),
+        });
+        return {
+          department: serializeDepartment(
+            schema,
+            department.attrs as DepartmentRecord
+          ),
+        };
+      });
+
+      /**
+       * UPDATE department
+       * The employees of a renamed department are moved to the new name
+       */
+      this.put('/departments/:id', (schema, request) => {
+        const user = authorize(schema, request, 'manageDepartments');
+        if (user instanceof Response) return user;
+        const { id } = request.params;
+        const { name }: Partial<DepartmentRecord> = JSON.parse(
+          request.requestBody
+        );
+        const department = schema.findBy('department', { id });
+        if (!department) {
+          return new Response(
+            404,
+            {},
+            {
+              error: 'Department not found',
+              id,
+            }
+          );
+        }
+        if (!name?.trim()) {
+          return new Response(
+            400,
+            {},
+            {
+              error: 'Bad Request: the name of the department is required',
+            }
+          );
+        }
+        const homonym = findDepartmentByName(schema, name);
+        if (homonym && homonym.id !== id) {
+          return new Response(
+            409,
+            {},
+            {
+              error: `Department '${name.trim()}' already exists`,
+            }
+          );
+        }
+
+        const previousName = department.name;
+        department.update({ name: name.trim() });
+        schema
+          .where('employee', (employee: Partial<EmployeeRecord>) =>
+            isSameDepartmentName(employee.department, previousName)
+          )
+          .models.forEach((employee) => {
+            const before = { ...employee.attrs } as EmployeeRecord;
+            employee.update({
+              department: department.name,
+              version: nextVersion(employee),
+            });
+            recordAuditEvent(
+              schema,
+              user,
+              'UPDATE',
+              before.id,
+              before,
+              employee.attrs
+            );
+          });
+
+        return {
+          department: serializeDepartment(
+            schema,
+            department.attrs as DepartmentRecord
+          ),
+        };
+      });
+
+      /**
+       * DELETE department
+       * A department still having employees can't be deleted
+       */
+      this.delete('/departments/:id', (schema, request) => {
+        const user = authorize(schema, request, 'manageDepartments');
+        if (user instanceof Response) return user;
+        const { id } = request.params;
+        const department = schema.findBy('department', { id });
+        if (!department) {
+          return new Response(
+            404,
+            {},
+            {
+              error: 'Department not found',
+              id,
+            }
+          );
+        }
+        const { name } = department.attrs as DepartmentRecord;
+        const count = countDepartmentEmployees(schema, name);
+        if (count > 0) {
+          return new Response(
+            409,
+            {},
+            {
+              error: `Department '${name}' still has ${count} employee(s)`,
+              count,
+            }
+          );
+        }
+        department.destroy();
         return { id };
       });
+
+      /**
+       * RESET the demo data: the database is seeded again, as on the first visit
+       */
+      this.post('/demo/reset', (schema, request) => {
+        const user = authorize(schema, request, 'resetDemoData');
+        if (user instanceof Response) return user;
+        // The sessions are kept, the users signed in stay signed in
+        const sessions = schema
+          .all('session')
+          .models.map((session) => session.attrs);
+        mockServer.db.emptyData();
+        seedDatabase(mockServer);
+        mockServer.db.loadData({ sessions });
+        return new Response(204);
+      });
     },
   });
+
+  persistAfterMutations(mockServer);
+  return mockServer;
 }
 
 export default MockServer;
@@ -0,0 +1,61 @@
+import { faker } from '@faker-js/faker';
+import type { AnyRegistry } from 'miragejs/-types';
+import type Schema from 'miragejs/orm/schema';
+
+import type { AuditAction, AuditEvent, EmployeeRecord, User } from '@types';
+import { computeEmployeeChanges } from '@utils';
+
+/**
+ * @function
+ * @name recordAuditEvent
+ * @param {Schema} schema - the Mirage schema
+ * @param {User} user - the signed in user who made the change
+ * @param {AuditAction} action - the kind of change made to the employee
+ * @param {string} employeeId - the id of the changed employee
+ * @param {Partial<EmployeeRecord> | undefined} before - the employee before the change, undefined for a creation
+ * @param {Partial<EmployeeRecord> | undefined} after - the employee after the change, undefined for a deletion
+ * @description
+ * The function persists the change made to an employee as an audit event: who, when, and the before and after value of every changed field.
+ * An update changing nothing is not recorded.
+ */
+export function recordAuditEvent(
+  schema: Schema<AnyRegistry>,
+  user: User,
+  action: AuditAction,
+  employeeId: string,
+  before: Partial<EmployeeRecord> | undefined,
+  after: Partial<EmployeeRecord> | undefined
+) {
+  const changes = computeEmployeeChanges(before, after);
+  if (action === 'UPDATE' && changes.length === 0) return;
+
+  const event: AuditEvent = {
+    id: faker.datatype.uuid(),
+    employeeId,
+    action,
+    user: user.name,
+    date: new Date().toISOString(),
+    changes,
+  };
+  schema.create('auditEvent', event);
+}
+
+/**
+ * @function
+ * @name getAuditEvents
+ * @param {Schema} schema - the Mirage schema
+ * @param {string} employeeId - the id of the employee
+ * @returns {AuditEvent[]} - the audit events of the employee, the most recent first
+ */
+export function getAuditEvents(
+  schema: Schema<AnyRegistry>,
+  employeeId: string
+): AuditEvent[] {
+  return schema
+    .where(
+      'auditEvent',
+      (event: Partial<AuditEvent>) => event.employeeId === employeeId
+    )
+    .models.map((event) => event.attrs as AuditEvent)
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
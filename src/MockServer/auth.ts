@@ -0,0 +1,226 @@
+import { faker } from '@faker-js/faker';
+import { Response } from 'miragejs';
+import type { Request, Server } from 'miragejs';
+import type { AnyRegistry } from 'miragejs/-types';
+import type Schema from 'miragejs/orm/schema';
+
+import type {
+  Permission,
+  Session,
+  SessionRecord,
+  User,
+  UserRecord,
+} from '@types';
+import { hasPermission, ROLE_LABELS } from '@utils';
+import readHeader from './headers';
+
+// Accounts of the demo, one per role, the password being the username
+const DEMO_USERS: UserRecord[] = [
+  {
+    id: 'viewer',
+    username: 'viewer',
+    password: 'viewer',
+    name: 'Victor Viewer',
+    role: 'viewer',
+  },
+  {
+    id: 'editor',
+    username: 'editor',
+    password: 'editor',
+    name: 'Helen Editor',
+    role: 'hrEditor',
+  },
+  {
+    id: 'admin',
+    username: 'admin',
+    password: 'admin',
+    name: 'Ada Admin',
+    role: 'admin',
+  },
+];
+
+// The access tokens are short-lived, the refresh tokens keep the users signed in for a week
+const ACCESS_TOKEN_LIFETIME = 15 * 60 * 1000;
+const REFRESH_TOKEN_LIFETIME = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * @function
+ * @name seedUsers
+ * @param {Server} server - the Mirage server
+ * @description
+ * The function creates the demo accounts. Their ids are fixed, so that the sessions survive a reset of the demo data.
+ */
+export function seedUsers(server: Server) {
+  DEMO_USERS.forEach((user) => server.create('user', user));
+}
+
+/**
+ * @function
+ * @name toUser
+ * @param {UserRecord} user - the user as stored
+ * @returns {User} - the user as sent to the client, without their password
+ */
+function toUser({ id, username, name, role }: UserRecord): User {
+  return { id, username, name, role };
+}
+
+/**
+ * @function
+ * @name findUserByCredentials
+ * @param {Schema} schema - the Mirage schema
+ * @param {string | undefined} username - the username typed by the user
+ * @param {string | undefined} password - the password typed by the user
+ * @returns {UserRecord | undefined} - the user, undefined if the credentials are invalid
+ */
+export function findUserByCredentials(
+  schema: Schema<AnyRegistry>,
+  username: string | undefined,
+  password: string | undefined
+): UserRecord | undefined {
+  const user = schema.findBy(
+    'user',
+    (candidate: Partial<UserRecord>) =>
+      candidate.username === username && candidate.password === password
+  );
+  return user ? (user.attrs as UserRecord) : undefined;
+}
+
+/**
+ * @function
+ * @name openSession
+ * @param {Schema} schema - the Mirage schema
+ * @param {UserRecord} user - the signed in user
+ * @returns {Session} - the new session of the user, with its tokens
+ */
+export function openSession(
+  schema: Schema<AnyRegistry>,
+  user: UserRecord
+): Session {
+  const now = Date.now();
+  const session: SessionRecord = {
+    id: faker.datatype.uuid(),
+    userId: user.id,
+    accessToken: faker.datatype.uuid(),
+    refreshToken: faker.datatype.uuid(),
+    accessTokenExpiresAt: new Date(now + ACCESS_TOKEN_LIFETIME).toISOString(),
+    refreshTokenExpiresAt: new Date(now + REFRESH_TOKEN_LIFETIME).toISOString(),
+  };
+  schema.create('session', session);
+  return {
+    accessToken: session.accessToken,
+    refreshToken: session.refreshToken,
+    expiresAt: session.accessTokenExpiresAt,
+    user: toUser(user),
+  };
+}
+
+/**
+ * @function
+ * @name refreshSession
+ * @param {Schema} schema - the Mirage schema
+ * @param {string | undefined} refreshToken - the refresh token of the session
+ * @returns {Session | undefined} - a new session replacing the refreshed one, undefined if the refresh token is invalid or expired
+ * @description
+ * The tokens are rotated: the refreshed session is closed, so that its refresh token can't be used twice.
+ */
+export function refreshSession(
+  schema: Schema<AnyRegistry>,
+  refreshToken: string | undefined
+): Session | undefined {
+  const session = refreshToken
+    ? schema.findBy(
+        'session',
+        (candidate: Partial<SessionRecord>) =>
+          candidate.refreshToken === refreshToken
+      )
+    : null;
+  if (!session) return undefined;
+  const { userId, refreshTokenExpiresAt } = session.attrs as SessionRecord;
+  session.destroy();
+  const user = schema.find('user', userId);
+  if (!user || refreshTokenExpiresAt < new Date().toISOString()) {
+    return undefined;
+  }
+  return openSession(schema, user.attrs as UserRecord);
+}
+
+/**
+ * @function
+ * @name findSession
+ * @param {Schema} schema - the Mirage schema
+ * @param {Request} request - the request, authenticated by the bearer token of its Authorization header
+ * @returns the session of the access token, null if there is none
+ */
+function findSession(schema: Schema<AnyRegistry>, request: Request) {
+  const authorization = readHeader(request.requestHeaders, 'Authorization');
+  const accessToken = /^Bearer (.+)$/i.exec(authorization ?? '')?.[1];
+  return accessToken
+    ? schema.findBy(
+        'session',
+        (candidate: Partial<SessionRecord>) =>
+          candidate.accessToken === accessToken
+      )
+    : null;
+}
+
+/**
+ * @function
+ * @name closeSession
+ * @param {Schema} schema - the Mirage schema
+ * @param {Request} request - the request of the signed in user
+ * @description
+ * Both tokens of the session are revoked. Nothing happens if the request has no session.
+ */
+export function closeSession(schema: Schema<AnyRegistry>, request: Request) {
+  findSession(schema, request)?.destroy();
+}
+
+/**
+ * @function
+ * @name authorize
+ * @param {Schema} schema - the Mirage schema
+ * @param {Request} request - the request, authenticated by the bearer token of its Authorization header
+ * @param {Permission} permission - what the request does
+ * @returns {UserRecord | Response} - the signed in user,
+ * or a 401 response if the access token is missing, unknown or expired, a 403 response if the role of the user does not allow the request
+ * @example
+ * const user = authorize(schema, request, 'edit');
+ * if (user instanceof Response) return user;
+ */
+export function authorize(
+  schema: Schema<AnyRegistry>,
+  request: Request,
+  permission: Permission
+): UserRecord | Response {
+  const session = findSession(schema, request)?.attrs as
+    | SessionRecord
+    | undefined;
+  const user = session
+    ? (schema.find('user', session.userId)?.attrs as UserRecord | undefined)
+    : undefined;
+  if (
+    !session ||
+    !user ||
+    session.accessTokenExpiresAt < new Date().toISOString()
+  ) {
+    return new Response(
+      401,
+      {},
+      {
+        error: 'Authentication required, please sign in',
+      }
+    );
+  }
+  if (!hasPermission(user, permission)) {
+    return new Response(
+      403,
+      {},
+      {
+        error: `Forbidden: the ${
+          ROLE_LABELS[user.role]
+        } role does not allow this action`,
+      }
+    );
+  }
+  return user;
+}
@@ -0,0 +1,71 @@
+import { Response } from 'miragejs';
+
+import type { EmployeeConflictResponse, EmployeeRecord } from '@types';
+
+/**
+ * @function
+ * @name nextVersion
+ * @param {Partial<EmployeeRecord>} employee - the employee about to be changed
+ * @returns {number} - the version of the employee once changed: every change of the record increments it
+ */
+export function nextVersion(employee: Partial<EmployeeRecord>): number {
+  return (employee.version ?? 1) + 1;
+}
+
+/**
+ * @function
+ * @name employeeETag
+ * @param {Partial<EmployeeRecord>} employee - the employee
+ * @returns {string} - the entity tag of the current version of the employee, e.g. "3"
+ */
+export function employeeETag(employee: Partial<EmployeeRecord>): string {
+  return `"${employee.version ?? 1}"`;
+}
+
+/**
+ * @function
+ * @name matchesIfMatch
+ * @param {string} ifMatch - the If-Match header of the request
+ * @param {Partial<EmployeeRecord>} employee - the current employee
+ * @returns {boolean} - true if the precondition is '*' or if one of its entity tags is the one of the employee
+ */
+export function matchesIfMatch(
+  ifMatch: string,
+  employee: Partial<EmployeeRecord>
+): boolean {
+  const etag = employeeETag(employee);
+  return ifMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+/**
+ * @function
+ * @name preconditionRequiredResponse
+ * @returns {Response} - the 428 response of an update without If-Match header, which could silently overwrite someone else's changes
+ */
+export function preconditionRequiredResponse() {
+  return new Response(
+    428,
+    {},
+    {
+      error:
+        'Precondition Required: the If-Match header must hold the version of the edited employee',
+    }
+  );
+}
+
+/**
+ * @function
+ * @name preconditionFailedResponse
+ * @param {Partial<EmployeeRecord>} employee - the current employee
+ * @returns {Response} - the 412 response, with the current employee so that the client can show it next to its edits
+ */
+export function preconditionFailedResponse(employee: Partial<EmployeeRecord>) {
+  const body: EmployeeConflictResponse = {
+    error: 'The employee was changed by someone else since it was loaded',
+    employee: employee as EmployeeRecord,
+  };
+  return new Response(412, { ETag: employeeETag(employee) }, body);
+}
@@ -0,0 +1,100 @@
+import type { AnyRegistry } from 'miragejs/-types';
+import type Schema from 'miragejs/orm/schema';
+
+import type { Department, DepartmentRecord, EmployeeRecord } from '@types';
+
+/**
+ * Departments of the catalogue when the server starts
+ */
+export const DEFAULT_DEPARTMENTS: Department[] = [
+  'Sales',
+  'Marketing',
+  'Engineering',
+  'Human Resources',
+  'Legal',
+];
+
+/**
+ * @function
+ * @name isSameDepartmentName
+ * @param {string | undefined} name - a name of department, e.g. of an employee
+ * @param {string | undefined} other - another name of department, e.g. of the catalogue
+ * @returns {boolean} - true if both names are the same, whatever their case and surrounding spaces
+ */
+export function isSameDepartmentName(
+  name: string | undefined,
+  other: string | undefined
+): boolean {
+  if (!name || !other) return false;
+  return name.trim().toLowerCase() === other.trim().toLowerCase();
+}
+
+/**
+ * @function
+ * @name findDepartmentByName
+ * @param {Schema} schema - the Mirage schema
+ * @param {string} name - the name of the department, case insensitive
+ * @returns the department of the catalogue, or undefined if the name is unknown
+ */
+export function findDepartmentByName(
+  schema: Schema<AnyRegistry>,
+  name: string | undefined
+) {
+  if (!name) return undefined;
+  return schema
+    .all('department')
+    .models.find((department) =>
+      isSameDepartmentName(name, (department.attrs as DepartmentRecord).name)
+    );
+}
+
+/**
+ * @function
+ * @name withCatalogueDepartment
+ * @param {Schema} schema - the Mirage schema
+ * @param {T} attrs - the attributes of a created or updated employee
+ * @returns {T} - the attributes with the name of the department as written in the catalogue, unchanged if the department is unknown
+ */
+export function withCatalogueDepartment<T extends Partial<EmployeeRecord>>(
+  schema: Schema<AnyRegistry>,
+  attrs: T
+): T {
+  const department = findDepartmentByName(schema, attrs.department);
+  return department
+    ? { ...attrs, department: (department.attrs as DepartmentRecord).name }
+    : attrs;
+}
+
+/**
+ * @function
+ * @name countDepartmentEmployees
+ * @param {Schema} schema - the Mirage schema
+ * @param {string} name - the name of the department, case insensitive
+ * @returns {number} - the number of employees of the department, former employees included as they can be restored
+ */
+export function countDepartmentEmployees(
+  schema: Schema<AnyRegistry>,
+  name: Department
+): number {
+  return schema.where('employee', (employee: Partial<EmployeeRecord>) =>
+    isSameDepartmentName(employee.department, name)
+  ).length;
+}
+
+/**
+ * @function
+ * @name serializeDepartment
+ * @param {Schema} schema - the Mirage schema
+ * @param {DepartmentRecord} department - the department attributes
+ * @returns {DepartmentRecord} - the department with its number of employees
+ */
+export function serializeDepartment(
+  schema: Schema<AnyRegistry>,
+  department: DepartmentRecord
+): DepartmentRecord {
+  return {
+    id: department.id,
+    name: department.name,
+    employeeCount: countDepartmentEmployees(schema, department.name),
+  };
+}
@@ -0,0 +1,158 @@
+import type { AnyRegistry } from 'miragejs/-types';
+import type Schema from 'miragejs/orm/schema';
+
+import type { DuplicateCandidateRecord, EmployeeRecord, User } from '@types';
+import { isWireDate, maskPersonalData } from '@utils';
+
+// Weight of every criterion in the score of a candidate, their sum is 1
+const NAME_WEIGHT = 0.6;
+const DATE_OF_BIRTH_WEIGHT = 0.25;
+const ADDRESS_WEIGHT = 0.15;
+// Candidates whose name is less similar are never duplicates, whatever their date of birth and address
+const MIN_NAME_SIMILARITY = 0.75;
+// Minimum score of a likely duplicate: a very similar name is enough, a less similar one needs a common date of birth or address
+const MIN_DUPLICATE_SCORE = 0.5;
+const MAX_DUPLICATES = 5;
+
+/**
+ * @function
+ * @name normalize
+ * @param {unknown} value - the text to compare
+ * @returns {string} - the text in lower case, without accents and extra spaces
+ */
+function normalize(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * @function
+ * @name levenshteinDistance
+ * @param {string} a - the first text
+ * @param {string} b - the second text
+ * @returns {number} - the number of characters to insert, delete or replace to turn a into b
+ */
+function levenshteinDistance(a: string, b: string): number {
+  let previousRow = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i += 1) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      row[j] = Math.min(
+        previousRow[j] + 1,
+        row[j - 1] + 1,
+        previousRow[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previousRow = row;
+  }
+  return previousRow[b.length];
+}
+
+/**
+ * @function
+ * @name similarity
+ * @param {unknown} a - the first text
+ * @param {unknown} b - the second text
+ * @returns {number} - 1 for the same normalized texts, down to 0 for completely different ones
+ */
+function similarity(a: unknown, b: unknown): number {
+  const normalizedA = normalize(a);
+  const normalizedB = normalize(b);
+  const length = Math.max(normalizedA.length, normalizedB.length);
+  if (!length) return 1;
+  return 1 - levenshteinDistance(normalizedA, normalizedB) / length;
+}
+
+/**
+ * @function
+ * @name scoreCandidate
+ * @param {Partial<EmployeeRecord>} attrs - the attributes of the employee to create
+ * @param {Employee} candidate - an employee of the database
+ * @returns {DuplicateCandidateRecord | undefined} - the score of the candidate and its reasons, undefined if the names are too different
+ * @description
+ * The names are compared both ways, first and last names being sometimes swapped.
+ * The dates of birth are days written yyyy-MM-dd, the address is compared on the zip code and the street.
+ */
+function scoreCandidate(
+  attrs: Partial<EmployeeRecord>,
+  candidate: EmployeeRecord
+): DuplicateCandidateRecord | undefined {
+  const nameSimilarity = Math.max(
+    (similarity(attrs.firstName, candidate.firstName) +
+      similarity(attrs.lastName, candidate.lastName)) /
+      2,
+    (similarity(attrs.firstName, candidate.lastName) +
+      similarity(attrs.lastName, candidate.firstName)) /
+      2
+  );
+  if (nameSimilarity < MIN_NAME_SIMILARITY) return undefined;
+  const reasons = [nameSimilarity === 1 ? 'Same name' : 'Similar name'];
+
+  const sameDateOfBirth =
+    isWireDate(attrs.dateOfBirth) &&
+    attrs.dateOfBirth === candidate.dateOfBirth;
+  if (sameDateOfBirth) reasons.push('Same date of birth');
+
+  const sameZipcode =
+    attrs.zipcode !== undefined &&
+    attrs.zipcode !== null &&
+    candidate.zipcode !== null &&
+    attrs.zipcode === candidate.zipcode;
+  const similarStreet =
+    Boolean(normalize(attrs.street)) &&
+    similarity(attrs.street, candidate.street) >= 0.8;
+  if (sameZipcode && similarStreet) reasons.push('Same address');
+  else if (similarStreet) reasons.push('Similar street');
+  else if (sameZipcode) reasons.push('Same zip code');
+
+  const score =
+    NAME_WEIGHT * nameSimilarity +
+    DATE_OF_BIRTH_WEIGHT * (sameDateOfBirth ? 1 : 0) +
+    ADDRESS_WEIGHT * ((sameZipcode ? 0.5 : 0) + (similarStreet ? 0.5 : 0));
+  if (score < MIN_DUPLICATE_SCORE) return undefined;
+
+  return { employee: candidate, score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * @function
+ * @name findDuplicateEmployees
+ * @param {Schema} schema - the Mirage schema
+ * @param {Partial<EmployeeRecord>} attrs - the attributes of the employee to create
+ * @returns {DuplicateCandidateRecord[]} - the likely duplicates, current or former employees, the most likely first
+ */
+function findDuplicateEmployees(
+  schema: Schema<AnyRegistry>,
+  attrs: Partial<EmployeeRecord>
+): DuplicateCandidateRecord[] {
+  return schema
+    .all('employee')
+    .models.map((employee) =>
+      scoreCandidate(attrs, employee.attrs as EmployeeRecord)
+    )
+    .filter((candidate): candidate is DuplicateCandidateRecord =>
+      Boolean(candidate)
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_DUPLICATES);
+}
+
+/**
+ * @function
+ * @name maskDuplicate
+ * @param {DuplicateCandidateRecord} duplicate - a likely duplicate
+ * @param {Pick<User, 'role'>} user - the user the duplicate is sent to
+ * @returns {DuplicateCandidateRecord} - the duplicate, whose employee has the personal data hidden from the user masked
+ */
+export function maskDuplicate(
+  duplicate: DuplicateCandidateRecord,
+  user: Pick<User, 'role'>
+): DuplicateCandidateRecord {
+  return { ...duplicate, employee: maskPersonalData(duplicate.employee, user) };
+}
+
+export default findDuplicateEmployees;
@@ -0,0 +1,293 @@
+import type {
+  EmployeeFilter,
+  EmployeeRecord,
+  FilterLogic,
+  FilterOperator,
+} from '@types';
+import { FILTER_OPERATORS } from '@types';
+import { isWireDate } from '@utils';
+
+export type FieldType = 'string' | 'number' | 'date';
+
+/**
+ * Type of every employee field that can be filtered and sorted on
+ */
+export const EMPLOYEE_FIELD_TYPES: Record<EmployeeFilter['field'], FieldType> =
+  {
+    firstName: 'string',
+    lastName: 'string',
+    startDate: 'date',
+    department: 'string',
+    dateOfBirth: 'date',
+    street: 'string',
+    city: 'string',
+    state: 'string',
+    zipcode: 'number',
+    managerId: 'string',
+  };
+
+/**
+ * Operators allowed for each type of field
+ */
+const OPERATORS_BY_TYPE: Record<FieldType, FilterOperator[]> = {
+  string: [
+    'is',
+    'not',
+    'contains',
+    'startsWith',
+    'endsWith',
+    'in',
+    'isEmpty',
+    'isNotEmpty',
+  ],
+  number: [
+    'is',
+    'not',
+    'contains',
+    'startsWith',
+    'endsWith',
+    'in',
+    'between',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'isEmpty',
+    'isNotEmpty',
+  ],
+  date: [
+    'is',
+    'not',
+    'between',
+    'gt',
+    'gte',
+    'lt',
+    'lte',
+    'isEmpty',
+    'isNotEmpty',
+  ],
+};
+
+// Operators comparing the textual representation of the field
+const TEXT_OPERATORS: FilterOperator[] = ['contains', 'startsWith', 'endsWith'];
+
+/**
+ * Count the values expected by an operator
+ * @param {FilterOperator} operator - the filter operator
+ * @returns {[number, number]} - the minimum and maximum number of values
+ */
+function operatorArity(operator: FilterOperator): [number, number] {
+  switch (operator) {
+    case 'isEmpty':
+    case 'isNotEmpty':
+      return [0, 0];
+    case 'between':
+      return [2, 2];
+    case 'in':
+      return [1, Infinity];
+    default:
+      return [1, 1];
+  }
+}
+
+/**
+ * Read a day of an employee, stored as sent on the wire
+ * @param {unknown} day - the day of the employee
+ * @returns {string | undefined} - the day written yyyy-MM-dd, undefined if it is not a day
+ * @description - the days are compared as text, their textual order being the chronological one, whatever the locale and the time zone of the server.
+ */
+function toDay(day: unknown): string | undefined {
+  return isWireDate(day) ? day : undefined;
+}
+
+/**
+ * Parse and validate one filter of the query string.
+ * A filter is written `field:operator:value`, `in` and `between` values being separated by commas.
+ * @param {string} param - the raw filter
+ * @returns {EmployeeFilter} - the parsed filter
+ * @throws {Error} - when the field, the operator or the values are not valid
+ * @example parseFilter('startDate:between:2019-01-01,2020-12-31')
+ */
+export function parseFilter(param: string): EmployeeFilter {
+  const [field, operator, ...rest] = param.split(':');
+  const rawValue = rest.join(':');
+
+  if (!Object.keys(EMPLOYEE_FIELD_TYPES).includes(field)) {
+    throw new Error(`Invalid filter: unknown field '${field}'`);
+  }
+  const fieldType = EMPLOYEE_FIELD_TYPES[field as EmployeeFilter['field']];
+
+  if (!(FILTER_OPERATORS as readonly string[]).includes(operator)) {
+    throw new Error(`Invalid filter: unknown operator '${operator}'`);
+  }
+  if (!OPERATORS_BY_TYPE[fieldType].includes(operator as FilterOperator)) {
+    throw new Error(
+      `Invalid filter: operator '${operator}' is not allowed on field '${field}'`
+    );
+  }
+
+  let values: string[] = [];
+  if (operator === 'in' || operator === 'between') {
+    values = rawValue
+      .split(',')
+      .map((value) => value.trim())
+      .filter((value) => value !== '');
+  } else if (rawValue.trim() !== '') {
+    values = [rawValue.trim()];
+  }
+
+  const [min, max] = operatorArity(operator as FilterOperator);
+  if (values.length < min || values.length > max) {
+    throw new Error(
+      `Invalid filter: operator '${operator}' on field '${field}' expects ${
+        min === max ? min : `at least ${min}`
+      } value(s)`
+    );
+  }
+
+  if (!TEXT_OPERATORS.includes(operator as FilterOperator)) {
+    values.forEach((value) => {
+      if (fieldType === 'date' && !isWireDate(value)) {
+        throw new Error(
+          `Invalid filter: '${value}' is not a valid date (yyyy-mm-dd) for field '${field}'`
+        );
+      }
+      if (fieldType === 'number' && Number.isNaN(Number(value))) {
+        throw new Error(
+          `Invalid filter: '${value}' is not a valid number for field '${field}'`
+        );
+      }
+    });
+  }
+
+  return {
+    field: field as EmployeeFilter['field'],
+    operator: operator as FilterOperator,
+    values,
+  };
+}
+
+/**
+ * Parse and validate the filters of the query string
+ * @param {string | string[] | undefined} param - the raw `filter` query param(s)
+ * @returns {EmployeeFilter[]} - the parsed filters
+ * @throws {Error} - when one of the filters is not valid
+ */
+export function parseFilters(
+  param: string | string[] | null | undefined
+): EmployeeFilter[] {
+  if (!param) return [];
+  const params = Array.isArray(param) ? param : [param];
+  return params.map(parseFilter);
+}
+
+/**
+ * Parse and validate the logic linking the filters together
+ * @param {string | undefined} param - the raw `logic` query param
+ * @returns {FilterLogic} - 'and' by default
+ * @throws {Error} - when the logic is neither 'and' nor 'or'
+ */
+export function parseFilterLogic(
+  param: string | null | undefined
+): FilterLogic {
+  if (!param) return 'and';
+  if (param !== 'and' && param !== 'or') {
+    throw new Error(`Invalid filter logic: '${param}' (expected: and, or)`);
+  }
+  return param;
+}
+
+/**
+ * Check if an employee matches a filter
+ * @param {Partial<EmployeeRecord>} employee - the employee to check
+ * @param {EmployeeFilter} filter - the filter to apply
+ * @returns {boolean} - true if the employee matches the filter
+ */
+export function matchFilter(
+  employee: Partial<EmployeeRecord>,
+  filter: EmployeeFilter
+): boolean {
+  const { field, operator, values } = filter;
+  const fieldType = EMPLOYEE_FIELD_TYPES[field];
+  const fieldValue = employee[field];
+
+  const isEmpty =
+    fieldValue === undefined || fieldValue === null || fieldValue === '';
+  if (operator === 'isEmpty') return isEmpty;
+  if (operator === 'isNotEmpty') return !isEmpty;
+  if (isEmpty) return false;
+
+  if (TEXT_OPERATORS.includes(operator)) {
+    const text = (
+      fieldType === 'date' ? toDay(fieldValue) ?? '' : String(fieldValue)
+    ).toLowerCase();
+    const search = values[0].toLowerCase();
+    if (operator === 'contains') return text.includes(search);
+    if (operator === 'startsWith') return text.startsWith(search);
+    return text.endsWith(search);
+  }
+
+  // Normalize the field and the filter values so they can be compared
+  let normalize: (value: unknown) => string | number | undefined;
+  if (fieldType === 'number') normalize = (value) => Number(value);
+  else if (fieldType === 'date') normalize = toDay;
+  else normalize = (value) => String(value).toLowerCase();
+
+  const value = normalize(fieldValue);
+  if (value === undefined) return false;
+  const operands = values.map(normalize) as (string | number)[];
+
+  switch (operator) {
+    case 'is':
+      return value === operands[0];
+    case 'not':
+      return value !== operands[0];
+    case 'in':
+      return operands.includes(value);
+    case 'between':
+      return value >= operands[0] && value <= operands[1];
+    case 'gt':
+      return value > operands[0];
+    case 'gte':
+      return value >= operands[0];
+    case 'lt':
+      return value < operands[0];
+    case 'lte':
+      return value <= operands[0];
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check if a day of an employee matches a word of the quick filter.
+ * The day is searched written yyyy-mm-dd and dd-mm-yyyy, as in the employee form, the client replacing the slashes by dashes.
+ * @param {unknown} day - the day of the employee, written yyyy-MM-dd
+ * @param {string} search - the word of the quick filter
+ * @returns {boolean} - true if one of the ways of writing the day contains the word
+ * @example matchQuickFilterDay('2020-01-31', '31-01') // true
+ */
+export function matchQuickFilterDay(day: unknown, search: string): boolean {
+  const isoDay = toDay(day);
+  if (!isoDay) return false;
+  const formDay = isoDay.split('-').reverse().join('-');
+  return isoDay.includes(search) || formDay.includes(search);
+}
+
+/**
+ * Check if an employee matches a set of filters
+ * @param {Partial<EmployeeRecord>} employee - the employee to check
+ * @param {EmployeeFilter[]} filters - the filters to apply
+ * @param {FilterLogic} logic - 'and' if all filters must match, 'or' if one is enough
+ * @returns {boolean} - true if the employee matches the filters
+ */
+export function matchFilters(
+  employee: Partial<EmployeeRecord>,
+  filters: EmployeeFilter[],
+  logic: FilterLogic
+): boolean {
+  if (!filters.length) return true;
+  if (logic === 'or')
+    return filters.some((filter) => matchFilter(employee, filter));
+  return filters.every((filter) => matchFilter(employee, filter));
+}
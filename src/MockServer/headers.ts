@@ -0,0 +1,18 @@
+/**
+ * @function
+ * @name readHeader
+ * @param {Record<string, string>} headers - the headers of the request
+ * @param {string} name - the name of the header
+ * @returns {string | undefined} - the value of the header, whatever its case: the REST server gives the Node.js lower case headers
+ */
+function readHeader(
+  headers: Record<string, string> | undefined,
+  name: string
+): string | undefined {
+  const key = Object.keys(headers ?? {}).find(
+    (header) => header.toLowerCase() === name.toLowerCase()
+  );
+  return key ? headers?.[key] : undefined;
+}
+
+export default readHeader;
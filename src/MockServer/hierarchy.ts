@@ -0,0 +1,93 @@
+import type { AnyRegistry } from 'miragejs/-types';
+import type Schema from 'miragejs/orm/schema';
+
+import type { EmployeeRecord, EmployeeReportRecord } from '@types';
+
+/**
+ * @function
+ * @name getCurrentEmployees
+ * @param {Schema} schema - the Mirage schema
+ * @returns {EmployeeRecord[]} - the attributes of the employees which are not archived
+ */
+function getCurrentEmployees(schema: Schema<AnyRegistry>): EmployeeRecord[] {
+  return schema
+    .where(
+      'employee',
+      (employee: Partial<EmployeeRecord>) => !employee.archivedAt
+    )
+    .models.map((employee) => employee.attrs as EmployeeRecord);
+}
+
+/**
+ * @function
+ * @name wouldCreateCycle
+ * @param {Schema} schema - the Mirage schema
+ * @param {string} employeeId - the id of the employee whose manager changes
+ * @param {string} managerId - the id of the new manager
+ * @returns {boolean} - true if the employee is the manager itself or one of its managers, up to the top of the hierarchy
+ */
+export function wouldCreateCycle(
+  schema: Schema<AnyRegistry>,
+  employeeId: string,
+  managerId: string
+): boolean {
+  const visited = new Set<string>();
+  let currentId: string | null | undefined = managerId;
+
+  while (currentId && !visited.has(currentId)) {
+    if (currentId === employeeId) return true;
+    visited.add(currentId);
+    const manager = schema.findBy('employee', { id: currentId }) as {
+      attrs: Partial<EmployeeRecord>;
+    } | null;
+    currentId = manager?.attrs.managerId;
+  }
+  return false;
+}
+
+/**
+ * @function
+ * @name getReports
+ * @param {Schema} schema - the Mirage schema
+ * @param {string | null} managerId - the id of the manager, null for the top of the hierarchy
+ * @param {boolean} transitive - true to get the reports of the reports, down to the bottom of the hierarchy
+ * @returns {EmployeeReportRecord[]} - the current employees reporting to the manager, with their number of direct reports
+ * @description
+ * Employees whose manager is missing or archived are at the top of the hierarchy, so that nobody disappears from the org chart.
+ */
+export function getReports(
+  schema: Schema<AnyRegistry>,
+  managerId: string | null,
+  transitive: boolean
+): EmployeeReportRecord[] {
+  const employees = getCurrentEmployees(schema);
+  const currentIds = new Set(employees.map(({ id }) => id));
+
+  const reportsByManager = new Map<string | null, EmployeeRecord[]>();
+  employees.forEach((employee) => {
+    const key =
+      employee.managerId && currentIds.has(employee.managerId)
+        ? employee.managerId
+        : null;
+    reportsByManager.set(key, [...(reportsByManager.get(key) ?? []), employee]);
+  });
+
+  const toReport = (employee: EmployeeRecord): EmployeeReportRecord => ({
+    ...employee,
+    reportCount: reportsByManager.get(employee.id)?.length ?? 0,
+  });
+
+  const reports: EmployeeReportRecord[] = [];
+  const queue = [...(reportsByManager.get(managerId) ?? [])];
+  while (queue.length) {
+    const employee = queue.shift() as EmployeeRecord;
+    reports.push(toReport(employee));
+    if (transitive) queue.push(...(reportsByManager.get(employee.id) ?? []));
+  }
+
+  return reports.sort(
+    (a, b) =>
+      a.lastName.localeCompare(b.lastName) ||
+      a.firstName.localeCompare(b.firstName)
+  );
+}
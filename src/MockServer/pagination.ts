@@ -0,0 +1,61 @@
+import type { EmployeesRange } from '@types';
+
+// The largest number of employees sent at once
+export const MAX_LIMIT = 500;
+
+const INTEGER_PATTERN = /^\d+$/;
+
+/**
+ * @function
+ * @name parseInteger
+ * @param {unknown} param - a query or path param
+ * @param {string} name - the name of the param, for the error message
+ * @param {number} min - the smallest value allowed
+ * @param {number} max - the largest value allowed
+ * @returns {number | undefined} - the value of the param, undefined if it is missing
+ * @throws {Error} - when the param is not an integer between min and max
+ */
+function parseInteger(
+  param: unknown,
+  name: string,
+  min: number,
+  max: number
+): number | undefined {
+  if (param === undefined || param === null || param === '') return undefined;
+  const value = Number(param);
+  if (!INTEGER_PATTERN.test(String(param)) || value < min || value > max) {
+    throw new Error(
+      `Invalid ${name}: expected an integer from ${min}${
+        max < Infinity ? ` to ${max}` : ''
+      }, got '${param}'`
+    );
+  }
+  return value;
+}
+
+/**
+ * @function
+ * @name parseRange
+ * @param {unknown} pageParam - the page of the path, starting at 0
+ * @param {unknown} offsetParam - the index of the first employee, from the query params
+ * @param {unknown} limitParam - the number of employees, from the query params
+ * @param {number} defaultLimit - the number of employees of a page when no limit is given
+ * @returns {EmployeesRange} - the employees to send: the offset, by default the first employee of the page of limit employees
+ * @throws {Error} - when a param is not a positive integer, or the limit is over MAX_LIMIT
+ * @example parseRange('0', '25', '25', 100) // { offset: 25, limit: 25 }
+ * @example parseRange('2', undefined, undefined, 100) // { offset: 200, limit: 100 }
+ */
+export function parseRange(
+  pageParam: unknown,
+  offsetParam: unknown,
+  limitParam: unknown,
+  defaultLimit: number
+): EmployeesRange {
+  const page = parseInteger(pageParam, 'page', 0, Infinity) ?? 0;
+  const limit =
+    parseInteger(limitParam, 'limit', 1, MAX_LIMIT) ??
+    Math.min(defaultLimit, MAX_LIMIT);
+  const offset =
+    parseInteger(offsetParam, 'offset', 0, Infinity) ?? page * limit;
+  return { offset, limit };
+}
@@ -0,0 +1,82 @@
+import type { Server } from 'miragejs';
+
+// Key of the snapshot of the database in the localStorage
+const STORAGE_KEY = 'hrnet-mock-database';
+// Snapshots of another version are ignored, the database being seeded again
+// Version 2: the days of the employees are written yyyy-MM-dd instead of full ISO dates
+// Version 3: the employees have a version, incremented on every change
+// Version 4: the demo accounts and their sessions are stored
+// Version 5: the zip codes are texts of 5 digits, leading zeros included
+const SNAPSHOT_VERSION = 5;
+
+interface DatabaseSnapshot {
+  version: number;
+  data: Record<string, unknown[]>;
+}
+
+/**
+ * @function
+ * @name getStorage
+ * @returns {Storage | undefined} - the localStorage, undefined outside of a browser
+ */
+function getStorage(): Storage | undefined {
+  return typeof localStorage === 'undefined' ? undefined : localStorage;
+}
+
+/**
+ * @function
+ * @name loadSnapshot
+ * @returns {Record<string, unknown[]> | undefined} - the collections of the last snapshot, undefined if there is none or if it can't be read
+ */
+export function loadSnapshot(): Record<string, unknown[]> | undefined {
+  try {
+    const json = getStorage()?.getItem(STORAGE_KEY);
+    if (!json) return undefined;
+    const snapshot: DatabaseSnapshot = JSON.parse(json);
+    return snapshot.version === SNAPSHOT_VERSION ? snapshot.data : undefined;
+  } catch {
+    // A corrupted snapshot is ignored, the database being seeded again
+    return undefined;
+  }
+}
+
+/**
+ * @function
+ * @name saveSnapshot
+ * @param {Server} server - the Mirage server
+ * @description
+ * The whole database is saved. If it can't be, the server keeps working in memory.
+ */
+export function saveSnapshot(server: Server) {
+  try {
+    const snapshot: DatabaseSnapshot = {
+      version: SNAPSHOT_VERSION,
+      // The Mirage typings declare dump() as returning nothing
+      data: (
+        server.db as unknown as { dump: () => Record<string, unknown[]> }
+      ).dump(),
+    };
+    getStorage()?.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch {
+    // The localStorage is full or disabled: the changes are only kept in memory
+  }
+}
+
+/**
+ * @function
+ * @name persistAfterMutations
+ * @param {Server} server - the Mirage server
+ * @description
+ * The database is saved after every request which is not a GET, once the response is computed.
+ * The request logging of Mirage is kept.
+ */
+export function persistAfterMutations(server: Server) {
+  const { pretender } = server;
+  // Requests are only intercepted in a browser
+  if (!pretender) return;
+  const { handledRequest } = pretender;
+  pretender.handledRequest = (verb, path, request) => {
+    handledRequest.call(pretender, verb, path, request);
+    if (verb.toUpperCase() !== 'GET') saveSnapshot(server);
+  };
+}
@@ -0,0 +1,114 @@
+import type {
+  EmployeeField,
+  EmployeeRecord,
+  EmployeeSort,
+  SortOrder,
+} from '@types';
+import { EMPLOYEE_FIELD_TYPES, FieldType } from './filters';
+
+// Placeholder of the path segments when the employees are not sorted
+const NO_SORT = 'noSort';
+// Separator of the fields and of the orders in the path segments
+const SORT_SEPARATOR = '_';
+const SORT_ORDERS: SortOrder[] = ['asc', 'desc'];
+
+// Strings are sorted the same way whatever the locale of the browser or of the REST server
+const COLLATOR = new Intl.Collator('en-US', { numeric: true });
+
+/**
+ * Comparator of the values of every type of field, in ascending order
+ */
+const COMPARATORS: Record<FieldType, (a: unknown, b: unknown) => number> = {
+  string: (a, b) => COLLATOR.compare(String(a), String(b)),
+  number: (a, b) => Number(a) - Number(b),
+  // The days are written yyyy-MM-dd, their textual order is the chronological one
+  date: (a, b) => Number(String(a) > String(b)) - Number(String(a) < String(b)),
+};
+
+/**
+ * @function
+ * @name isMissing
+ * @param {unknown} value - the value of a field
+ * @returns {boolean} - true if the field has no value
+ */
+function isMissing(value: unknown): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+/**
+ * @function
+ * @name parseSort
+ * @param {string | undefined} fieldsParam - the sort fields of the path, joined by '_', the first one sorting first
+ * @param {string | undefined} ordersParam - the order of every sort field, joined by '_'
+ * @returns {EmployeeSort[]} - the sort criteria, empty if the employees are not sorted
+ * @throws {Error} - when a field can't be sorted on, an order is neither asc nor desc, or fields and orders don't match
+ * @example parseSort('lastName_firstName', 'asc_desc')
+ */
+export function parseSort(
+  fieldsParam: string | undefined,
+  ordersParam: string | undefined
+): EmployeeSort[] {
+  if (
+    (!fieldsParam || fieldsParam === NO_SORT) &&
+    (!ordersParam || ordersParam === NO_SORT)
+  ) {
+    return [];
+  }
+
+  const fields = (fieldsParam ?? '').split(SORT_SEPARATOR);
+  const orders = (ordersParam ?? '').split(SORT_SEPARATOR);
+  if (fields.length !== orders.length) {
+    throw new Error(
+      `Invalid sort: ${fields.length} field(s) for ${orders.length} order(s)`
+    );
+  }
+
+  return fields.map((field, index) => {
+    if (!Object.keys(EMPLOYEE_FIELD_TYPES).includes(field)) {
+      throw new Error(`Invalid sort: unknown field '${field}'`);
+    }
+    const order = orders[index] as SortOrder;
+    if (!SORT_ORDERS.includes(order)) {
+      throw new Error(
+        `Invalid sort: unknown order '${order}' (expected: ${SORT_ORDERS.join(
+          ', '
+        )})`
+      );
+    }
+    return { field: field as EmployeeField, order };
+  });
+}
+
+/**
+ * @function
+ * @name compareEmployees
+ * @param {Partial<EmployeeRecord>} a - the first employee
+ * @param {Partial<EmployeeRecord>} b - the second employee
+ * @param {EmployeeSort[]} sorts - the sort criteria, the first one sorting first
+ * @returns {number} - negative if a comes first, positive if b comes first, 0 if they are equal on every criterion
+ * @description
+ * Every field is compared with the comparator of its type. The employees without a value come last, whatever the order.
+ * Equal employees keep their order, Array.prototype.sort being stable.
+ */
+export function compareEmployees(
+  a: Partial<EmployeeRecord>,
+  b: Partial<EmployeeRecord>,
+  sorts: EmployeeSort[]
+): number {
+  let result = 0;
+  sorts.some(({ field, order }) => {
+    const valueA = a[field];
+    const valueB = b[field];
+    if (isMissing(valueA) || isMissing(valueB)) {
+      result = Number(isMissing(valueA)) - Number(isMissing(valueB));
+    } else {
+      const comparison = COMPARATORS[EMPLOYEE_FIELD_TYPES[field]](
+        valueA,
+        valueB
+      );
+      result = order === 'desc' ? -comparison : comparison;
+    }
+    return result !== 0;
+  });
+  return result;
+}
@@ -0,0 +1,68 @@
+import { Response } from 'miragejs';
+import type { AnyRegistry } from 'miragejs/-types';
+import type Schema from 'miragejs/orm/schema';
+
+import type {
+  EmployeeRecord,
+  EmployeeValidationErrorResponse,
+  EmployeeValidationErrors,
+} from '@types';
+import { isWireDate, validateEmployee } from '@utils';
+import { findDepartmentByName } from './departments';
+import { wouldCreateCycle } from './hierarchy';
+
+/**
+ * @function
+ * @name validateEmployeeAttrs
+ * @param {Schema} schema - the Mirage schema
+ * @param {Partial<EmployeeRecord>} attrs - the attributes of the created or updated employee
+ * @param {string} [id] - the id of the updated employee, undefined for a creation
+ * @returns {EmployeeValidationErrors} - the error message of every invalid field, empty if the employee is valid
+ * @description
+ * The attributes are checked with the rules shared with the client and the wire format of the days, then against the data of the server:
+ * the department must be in the catalogue, the manager must exist and the hierarchy must stay free of cycles.
+ */
+export function validateEmployeeAttrs(
+  schema: Schema<AnyRegistry>,
+  attrs: Partial<EmployeeRecord>,
+  id?: string
+): EmployeeValidationErrors {
+  const errors = validateEmployee(attrs);
+
+  // The shared rules accept any date, the API only the days written yyyy-MM-dd
+  (['startDate', 'dateOfBirth'] as const).forEach((field) => {
+    if (!errors[field] && !isWireDate(attrs[field])) {
+      errors[field] = 'Invalid date, must be : yyyy-mm-dd';
+    }
+  });
+
+  if (!errors.department) {
+    if (!findDepartmentByName(schema, attrs.department)) {
+      errors.department = `Unknown department '${attrs.department}'`;
+    }
+  }
+  if (attrs.managerId && !errors.managerId) {
+    if (!schema.findBy('employee', { id: attrs.managerId })) {
+      errors.managerId = `Unknown manager '${attrs.managerId}'`;
+    } else if (id && wouldCreateCycle(schema, id, attrs.managerId)) {
+      errors.managerId =
+        'An employee cannot report to themselves or to one of their reports';
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * @function
+ * @name invalidEmployeeResponse
+ * @param {EmployeeValidationErrors} errors - the error message of every invalid field
+ * @returns {Response} - the 422 response, with the field-keyed error map
+ */
+export function invalidEmployeeResponse(errors: EmployeeValidationErrors) {
+  const body: EmployeeValidationErrorResponse = {
+    error: 'Invalid employee',
+    errors,
+  };
+  return new Response(422, {}, body);
+}
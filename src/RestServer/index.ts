@@ -0,0 +1,112 @@
+import http from 'node:http';
+
+import MockServer from '../MockServer';
+import { createRouteTable, RouteRequest } from './routeTable';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+// The app and the REST server are served from different origins
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, If-Match, Authorization',
+  // The app reads the version of the employees in the ETag header
+  'Access-Control-Expose-Headers': 'ETag',
+};
+
+/**
+ * @function
+ * @name parseQueryParams
+ * @param {URLSearchParams} searchParams - the query string of the request
+ * @returns {Record<string, string | string[]>} - the query params, as given to the Mirage route handlers: ?filter[]=a&filter[]=b gives { filter: ['a', 'b'] }
+ */
+function parseQueryParams(
+  searchParams: URLSearchParams
+): Record<string, string | string[]> {
+  const queryParams: Record<string, string | string[]> = {};
+  searchParams.forEach((value, key) => {
+    if (key.endsWith('[]')) {
+      const name = key.slice(0, -2);
+      const values = queryParams[name];
+      queryParams[name] = Array.isArray(values) ? [...values, value] : [value];
+    } else {
+      queryParams[key] = value;
+    }
+  });
+  return queryParams;
+}
+
+/**
+ * @function
+ * @name readBody
+ * @param {http.IncomingMessage} request - the HTTP request
+ * @returns {Promise<string>} - the body of the request
+ */
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.setEncoding('utf8');
+    request.on('data', (chunk: string) => {
+      body += chunk;
+    });
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+/**
+ * Reference REST server of HRnet: it serves the routes of the MockServer over HTTP,
+ * so that the app can be run end-to-end against a real backend, with the same routes and response shapes.
+ * The database is seeded on start and kept in memory.
+ */
+const { interceptor, findRoute } = createRouteTable();
+MockServer({ interceptor });
+
+const server = http.createServer(async (request, response) => {
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS).end();
+    return;
+  }
+
+  const url = new URL(request.url ?? '/', `http://${request.headers.host}`);
+  const match = findRoute(request.method ?? 'GET', url.pathname);
+  if (!match) {
+    response
+      .writeHead(404, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+      .end(JSON.stringify({ error: 'Not Found' }));
+    return;
+  }
+
+  try {
+    const routeRequest: RouteRequest = {
+      method: request.method ?? 'GET',
+      url: request.url ?? '/',
+      params: match.params,
+      queryParams: parseQueryParams(url.searchParams),
+      requestBody: await readBody(request),
+      requestHeaders: request.headers as Record<string, string>,
+    };
+    const [status, headers, body] = await match.route.handle(routeRequest);
+    response
+      .writeHead(status, {
+        'Content-Type': 'application/json',
+        ...headers,
+        ...CORS_HEADERS,
+      })
+      .end(body);
+  } catch (err) {
+    response
+      .writeHead(500, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+      .end(
+        JSON.stringify({
+          error: `Internal Server Error: ${
+            err instanceof Error ? err.message : err
+          }`,
+        })
+      );
+  }
+});
+
+server.listen(PORT, () => {
+  process.stdout.write(`HRnet REST server listening on port ${PORT}\n`);
+});
@@ -0,0 +1,144 @@
+// Arguments of a route handler: the path params, the query params, the body and the headers of the request
+export interface RouteRequest {
+  method: string;
+  url: string;
+  params: Record<string, string>;
+  queryParams: Record<string, string | string[]>;
+  requestBody: string;
+  requestHeaders: Record<string, string>;
+}
+
+// Status, headers and serialized body of the response
+export type RouteResponse = [number, Record<string, string>, string];
+
+export interface Route {
+  verb: string;
+  path: string;
+  pattern: RegExp;
+  paramNames: string[];
+  // Routes with more static segments are matched first: /employees/bulk before /employees/:id
+  staticSegmentCount: number;
+  handle: (request: RouteRequest) => Promise<RouteResponse>;
+}
+
+// Mirage server methods used by the interceptor, not declared by the Mirage typings
+interface MirageServerInternals {
+  registerRouteHandler: (
+    verb: string,
+    path: string,
+    rawHandler: unknown,
+    customizedCode: number | undefined,
+    options: { timing?: number; coalesce: boolean }
+  ) => (request: RouteRequest) => Promise<RouteResponse>;
+  [verb: string]: unknown;
+}
+
+const VERBS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+
+/**
+ * @function
+ * @name compilePath
+ * @param {string} path - the path of the route, with its dynamic segments, e.g. /api/employees/:id
+ * @returns {Pick<Route, 'pattern' | 'paramNames' | 'staticSegmentCount'>} - the regular expression matching the path and the names of its params
+ */
+function compilePath(
+  path: string
+): Pick<Route, 'pattern' | 'paramNames' | 'staticSegmentCount'> {
+  const paramNames: string[] = [];
+  let staticSegmentCount = 0;
+  const source = path
+    .split('/')
+    .map((segment) => {
+      if (segment.startsWith(':')) {
+        paramNames.push(segment.slice(1));
+        return '([^/]+)';
+      }
+      if (segment) staticSegmentCount += 1;
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('/');
+  return {
+    pattern: new RegExp(`^${source}/?$`),
+    paramNames,
+    staticSegmentCount,
+  };
+}
+
+/**
+ * @function
+ * @name createRouteTable
+ * @returns the interceptor to give to the Mirage server, and the function finding the route of a request
+ * @description
+ * The interceptor replaces pretender: instead of catching the requests of the browser,
+ * it keeps the route handlers of the Mirage server so that they can be called by an HTTP server.
+ */
+export function createRouteTable() {
+  const routes: Route[] = [];
+
+  const interceptor = {
+    namespace: '',
+    urlPrefix: '',
+    timing: 0,
+    passthroughChecks: [],
+
+    create(
+      mirageServer: MirageServerInternals,
+      config: { namespace?: string }
+    ) {
+      this.config(config);
+      VERBS.forEach((verb) => {
+        const register = (path: string, rawHandler: unknown) => {
+          const fullPath = `${this.namespace}/${path}`.replace(/\/+/g, '/');
+          routes.push({
+            verb: verb.toUpperCase(),
+            path: fullPath,
+            ...compilePath(fullPath),
+            handle: mirageServer.registerRouteHandler(
+              verb,
+              path,
+              rawHandler,
+              undefined,
+              { timing: undefined, coalesce: false }
+            ),
+          });
+        };
+        // eslint-disable-next-line no-param-reassign
+        mirageServer[verb] = register;
+      });
+      // eslint-disable-next-line no-param-reassign
+      mirageServer.del = mirageServer.delete;
+    },
+    config(config: { namespace?: string }) {
+      this.namespace = this.namespace || config.namespace || '';
+    },
+    passthrough() {},
+    start() {},
+    shutdown() {
+      routes.splice(0, routes.length);
+    },
+  };
+
+  /**
+   * @function
+   * @name findRoute
+   * @param {string} verb - the HTTP method of the request
+   * @param {string} pathname - the path of the request, without its query string
+   * @returns the route handling the request and its params, undefined if no route matches
+   */
+  const findRoute = (verb: string, pathname: string) => {
+    const route = routes
+      .filter((candidate) => candidate.verb === verb.toUpperCase())
+      .sort((a, b) => b.staticSegmentCount - a.staticSegmentCount)
+      .find((candidate) => candidate.pattern.test(pathname));
+    if (!route) return undefined;
+
+    const values = route.pattern.exec(pathname)?.slice(1) ?? [];
+    const params: Record<string, string> = {};
+    route.paramNames.forEach((name, index) => {
+      params[name] = decodeURIComponent(values[index]);
+    });
+    return { route, params };
+  };
+
+  return { interceptor, findRoute };
+}
@@ -1,33 +1,30 @@
-import { useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useCallback, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
 import { Formik, Form } from 'formik';
-import * as Yup from 'yup';
-import {
-  Button,
-  FormControl,
-  FormHelperText,
-  InputLabel,
-  MenuItem,
-  Select,
-  TextField,
-} from '@mui/material';
-import { LocalizationProvider, DatePicker } from '@mui/x-date-pickers';
-import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
-import { differenceInYears } from 'date-fns';
+import { Button } from '@mui/material';
 import { Modal } from 'react-modal-simple-customizable';
 
-import { Department, StateAbbreviation, STATES, DEPARTMENTS } from '@types';
-import { useCreateEmployee } from '@services';
+import type { DuplicateCandidate, EmployeeAttributes } from '@types';
+import { useCheckDuplicateEmployees, useCreateEmployee } from '@services';
 import { useReducerCRUD } from '@hooks';
-import computeErrorFromQuery from '@utils';
+import computeErrorFromQuery, {
+  computeFieldErrorsFromQuery,
+  employeeValidationSchema,
+} from '@utils';
+import {
+  EMPTY_EMPLOYEE_FORM_VALUES,
+  EmployeeFormFields,
+  toEmployeeAttributes,
+} from '../EmployeeForm';
 
 import styles from './Modal.module.css';
 
 /**
  * Component that allows users to create a new employee by filling out a form and submitting it father validation
+ * The likely duplicates of existing employees are listed before the creation, which must then be confirmed.
  * Libraries:
- *  - 'Formik' and Yup for form handling and validation.
- *  - 'Material UI' for design, select and date-picker
+ *  - 'Formik' and Yup for form handling and validation, with the fields and rules shared in EmployeeForm
+ *  - 'Material UI' for design
  *  - 'react-modal-simple-customizable' for showing server response in a modal
  * @component
  * @returns {JSX.Element} - Create employee form
@@ -76,249 +73,62 @@ function CreateEmployeeForm() {
   );
   // *************************************************************************
 
+  // * Duplicate check ******************************************************
+  const [duplicateCheck, setDuplicateCheck] = useState<{
+    employee: EmployeeAttributes;
+    duplicates: DuplicateCandidate[];
+  }>();
+  const checkDuplicateEmployees = useCheckDuplicateEmployees(
+    undefined,
+    onErrorCreateHandler
+  );
+  const onCreateAnywayHandler = () => {
+    if (duplicateCheck) {
+      createEmployee.mutate({
+        employee: duplicateCheck.employee,
+        allowDuplicates: true,
+      });
+    }
+    setDuplicateCheck(undefined);
+  };
+  // *************************************************************************
+
   return (
     <>
       <Formik
-        initialValues={{
-          firstName: '',
-          lastName: '',
-          dateOfBirth: '',
-          startDate: '',
-          street: '',
-          city: '',
-          zipcode: '',
-          state: '',
-          department: '',
-        }}
-        validationSchema={Yup.object({
-          firstName: Yup.string().required('Required'),
-          lastName: Yup.string().required('Required'),
-          dateOfBirth: Yup.date()
-            .typeError('Invalid date, must be : dd/mm/yyyy')
-            .required('Required')
-            .test(
-              'legal-age-check',
-              'You must be over 18 years or older',
-              (date) => {
-                if (!date) return false;
-                const age = differenceInYears(new Date(), date);
-                if (age > 18) {
-                  return true;
-                }
-                return false;
+        initialValues={EMPTY_EMPLOYEE_FORM_VALUES}
+        validationSchema={employeeValidationSchema}
+        onSubmit={(values, { setErrors }) => {
+          const employee = toEmployeeAttributes(values);
+          checkDuplicateEmployees.mutate(employee, {
+            onSuccess: (duplicates) => {
+              if (duplicates.length) {
+                setDuplicateCheck({ employee, duplicates });
+                return;
               }
-            ),
-          startDate: Yup.date()
-            .typeError('Invalid date, must be : dd/mm/yyyy')
-            .required('Required'),
-          street: Yup.string().required('Required'),
-          city: Yup.string().required('Required'),
-          zipcode: Yup.number().required('Required'),
-          state: Yup.string().required('Required'),
-          department: Yup.string().required('Required'),
-        })}
-        onSubmit={(values) => {
-          createEmployee.mutate({
-            firstName: values.firstName,
-            lastName: values.lastName,
-            dateOfBirth: new Date(values.dateOfBirth),
-            startDate: new Date(values.startDate),
-            street: values.street,
-            city: values.city,
-            zipcode: +values.zipcode,
-            state: values.state as StateAbbreviation,
-            department: values.department as Department,
+              // The errors of the 422 responses are shown on the offending fields
+              createEmployee.mutate(
+                { employee },
+                {
+                  onError: (err) => setErrors(computeFieldErrorsFromQuery(err)),
+                }
+              );
+            },
           });
         }}
       >
-        {({
-          errors,
-          touched,
-          values,
-          setFieldValue,
-          isSubmitting,
-          handleChange,
-          handleBlur,
-        }) => (
+        {() => (
           <Form>
-            <TextField
-              fullWidth
-              label="First Name"
-              id="firstName"
-              name="firstName"
-              type="text"
-              error={touched.firstName && Boolean(errors.firstName)}
-              helperText={touched.firstName && errors.firstName}
-              onChange={handleChange}
-              onBlur={handleBlur}
-            />
-            <br />
-            <br />
-            <TextField
-              fullWidth
-              label="Last Name"
-              id="lastName"
-              name="lastName"
-              type="text"
-              error={touched.lastName && Boolean(errors.lastName)}
-              helperText={touched.lastName && errors.lastName}
-              onChange={handleChange}
-              onBlur={handleBlur}
-            />
-            <br />
-            <br />
-            <LocalizationProvider dateAdapter={AdapterDateFns}>
-              <DatePicker
-                label="Date of Birth"
-                onChange={(value: Date | null) => {
-                  return setFieldValue('dateOfBirth', value, true);
-                }}
-                value={values.dateOfBirth}
-                inputFormat="dd/MM/yyyy"
-                renderInput={(params) => (
-                  <TextField
-                    fullWidth
-                    // eslint-disable-next-line react/jsx-props-no-spreading
-                    {...params}
-                    error={touched.dateOfBirth && Boolean(errors.dateOfBirth)}
-                    helperText={touched.dateOfBirth && errors.dateOfBirth}
-                    onBlur={handleBlur}
-                    placeholder="mm/dd/yyyy"
-                  />
-                )}
-              />
-              <br />
-              <br />
-              <DatePicker
-                label="Start Date"
-                onChange={(value: Date | null) => {
-                  return setFieldValue('startDate', value, true);
-                }}
-                value={values.startDate}
-                inputFormat="dd/MM/yyyy"
-                renderInput={(params) => (
-                  <TextField
-                    fullWidth
-                    // eslint-disable-next-line react/jsx-props-no-spreading
-                    {...params}
-                    error={touched.startDate && Boolean(errors.startDate)}
-                    helperText={touched.startDate && errors.startDate}
-                    onBlur={handleBlur}
-                    placeholder="mm/dd/yyyy"
-                  />
-                )}
-              />
-            </LocalizationProvider>
-            <br />
-            <br />
-            <fieldset className="address">
-              <br />
-              <legend>Address</legend>
-              <TextField
-                fullWidth
-                label="Street"
-                id="street"
-                name="street"
-                type="text"
-                error={touched.street && Boolean(errors.street)}
-                helperText={touched.street && errors.street}
-                onChange={handleChange}
-                onBlur={handleBlur}
-              />
-              <br />
-              <br />
-              <TextField
-                fullWidth
-                label="City"
-                id="city"
-                name="city"
-                type="text"
-                error={touched.city && Boolean(errors.city)}
-                helperText={touched.city && errors.city}
-                onChange={handleChange}
-                onBlur={handleBlur}
-              />
-              <br />
-              <br />
-              <FormControl fullWidth>
-                <InputLabel
-                  id="state-label"
-                  error={touched.state && Boolean(errors.state)}
-                >
-                  State
-                </InputLabel>
-                <Select
-                  labelId="state-label"
-                  id="state"
-                  name="state"
-                  value={values.state}
-                  label="State"
-                  error={touched.state && Boolean(errors.state)}
-                  onChange={handleChange}
-                  onBlur={handleBlur}
-                >
-                  {Object.entries(STATES).map(([abbr, name]) => (
-                    <MenuItem key={abbr} value={abbr}>
-                      {name}
-                    </MenuItem>
-                  ))}
-                </Select>
-                <FormHelperText error={touched.state && Boolean(errors.state)}>
-                  {touched.state && errors.state}
-                </FormHelperText>
-              </FormControl>
-              <br />
-              <br />
-              <TextField
-                fullWidth
-                label="Zip Code"
-                id="zipcode"
-                name="zipcode"
-                type="number"
-                error={touched.zipcode && Boolean(errors.zipcode)}
-                helperText={touched.zipcode && errors.zipcode}
-                onChange={handleChange}
-                onBlur={handleBlur}
-              />
-              <br />
-            </fieldset>
-            <br />
-            <FormControl fullWidth>
-              <InputLabel
-                id="department-label"
-                error={touched.department && Boolean(errors.department)}
-              >
-                Department
-              </InputLabel>
-              <Select
-                labelId="department-label"
-                id="department"
-                name="department"
-                value={values.department}
-                label="Department"
-                error={touched.department && Boolean(errors.department)}
-                onChange={handleChange}
-                onBlur={handleBlur}
-              >
-                {Object.values(DEPARTMENTS).map((value) => (
-                  <MenuItem key={value} value={value}>
-                    {value}
-                  </MenuItem>
-                ))}
-              </Select>
-              <FormHelperText
-                error={touched.department && Boolean(errors.department)}
-              >
-                {touched.department && errors.department}
-              </FormHelperText>
-            </FormControl>
+            <EmployeeFormFields />
             <br />
             <br />
             <Button
               fullWidth
               variant="contained"
               size="large"
-              disabled={isSubmitting && createEmployee.isLoading}
+              disabled={
+                checkDuplicateEmployees.isLoading || createEmployee.isLoading
+              }
               type="submit"
             >
               Save
@@ -326,6 +136,55 @@ function CreateEmployeeForm() {
           </Form>
         )}
       </Formik>
+      <Modal
+        show={Boolean(duplicateCheck)}
+        onClose={() => setDuplicateCheck(undefined)}
+        className={styles.modal}
+        overlayClassName={styles.overlay}
+      >
+        <div className={styles.modalBody}>
+          <h2>Possible duplicates</h2>
+          <h3>These employees look like the one you are creating:</h3>
+          <ul className={styles.listOfDuplicates}>
+            {duplicateCheck?.duplicates.map(({ employee, score, reasons }) => (
+              <li key={employee.id}>
+                <p>
+                  {'- '}
+                  <Link
+                    to={`/employees/${employee.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                  >
+                    {`${employee.firstName} ${employee.lastName}`}
+                  </Link>
+                  {employee.archivedAt ? ' (former employee)' : ''}
+                  {`: ${reasons.join(', ')} (${Math.round(score * 100)}%)`}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className={styles.modalFooter}>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={onCreateAnywayHandler}
+          >
+            Create anyway
+          </Button>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={() => setDuplicateCheck(undefined)}
+          >
+            Cancel
+          </Button>
+        </div>
+      </Modal>
       <Modal
         show={showModalResult}
         onClose={() => dispatchCRUD({ type: 'INIT' })}
@@ -333,13 +192,14 @@ function CreateEmployeeForm() {
         overlayClassName={styles.overlay}
       >
         <div className={styles.modalBody}>
-          {createEmployee.isError && (
+          {result?.error ? (
             <>
               <p className={styles.firstLine}>Error!</p>
               <p className={styles.lastLine}>{result?.error}</p>
             </>
+          ) : (
+            <p>Employee created!</p>
           )}
-          {createEmployee.isSuccess && <p>Employee created!</p>}
         </div>
         <div className={styles.modalFooter}>
           <Button
@@ -349,7 +209,7 @@ function CreateEmployeeForm() {
             type="button"
             onClick={() => dispatchCRUD({ type: 'INIT' })}
           >
-            {createEmployee.isSuccess ? 'Create another employee' : 'Try again'}
+            {result?.error ? 'Try again' : 'Create another employee'}
           </Button>
           <Button
             fullWidth
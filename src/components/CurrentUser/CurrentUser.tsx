@@ -0,0 +1,43 @@
+import { Box, Button } from '@mui/material';
+
+import { useLogout, useSession } from '@services';
+import { ROLE_LABELS } from '@utils';
+
+/**
+ * The signed in user, with their role, and the button signing them out.
+ * Libraries:
+ *  - 'Material UI' for design
+ * @component
+ * @returns {JSX.Element | null} - Current user bar, nothing if nobody is signed in
+ */
+function CurrentUser() {
+  const session = useSession();
+  const logout = useLogout();
+
+  if (!session) return null;
+
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        justifyContent: 'flex-end',
+        alignItems: 'center',
+        gap: 1,
+        p: 1,
+      }}
+    >
+      <span>{`${session.user.name} (${ROLE_LABELS[session.user.role]})`}</span>
+      <Button
+        size="small"
+        variant="outlined"
+        type="button"
+        disabled={logout.isLoading}
+        onClick={() => logout.mutate()}
+      >
+        Sign out
+      </Button>
+    </Box>
+  );
+}
+
+export default CurrentUser;
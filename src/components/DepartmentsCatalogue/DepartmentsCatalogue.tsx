@@ -0,0 +1,191 @@
+import { FormEvent, useState } from 'react';
+import { Cancel, Delete, Edit, Save } from '@mui/icons-material';
+import {
+  Box,
+  Button,
+  FormHelperText,
+  IconButton,
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+} from '@mui/material';
+
+import type { DepartmentRecord } from '@types';
+import {
+  useCreateDepartment,
+  useDeleteDepartment,
+  useDepartments,
+  useUpdateDepartment,
+} from '@services';
+import { usePermission } from '@hooks';
+import computeErrorFromQuery from '@utils';
+
+/**
+ * Catalogue of the departments: list them with their number of employees, add, rename and delete them.
+ * A renamed department keeps its employees, a department still having employees can't be deleted.
+ * Only the roles allowed to manage the departments can add, rename and delete them.
+ * Libraries:
+ *  - 'Material UI' for design
+ * @component
+ * @returns {JSX.Element} - Departments catalogue
+ */
+function DepartmentsCatalogue() {
+  const { data: departments, isLoading, isError, error } = useDepartments();
+  const canManage = usePermission('manageDepartments');
+
+  // * Mutation states *******************************************************
+  const [newName, setNewName] = useState('');
+  const [editedDepartment, setEditedDepartment] =
+    useState<Pick<DepartmentRecord, 'id' | 'name'>>();
+  const [mutationError, setMutationError] = useState<string>();
+
+  const onErrorHandler = (err: unknown) =>
+    setMutationError(computeErrorFromQuery(err));
+
+  const createDepartmentMutation = useCreateDepartment(() => {
+    setNewName('');
+    setMutationError(undefined);
+  }, onErrorHandler);
+  const updateDepartmentMutation = useUpdateDepartment(() => {
+    setEditedDepartment(undefined);
+    setMutationError(undefined);
+  }, onErrorHandler);
+  const deleteDepartmentMutation = useDeleteDepartment(
+    () => setMutationError(undefined),
+    onErrorHandler
+  );
+  // *************************************************************************
+
+  // * Handlers **************************************************************
+  const onCreateSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (newName.trim()) createDepartmentMutation.mutate(newName.trim());
+  };
+
+  const onRenameSave = () => {
+    if (editedDepartment?.name.trim())
+      updateDepartmentMutation.mutate({
+        id: editedDepartment.id,
+        name: editedDepartment.name.trim(),
+      });
+  };
+  // *************************************************************************
+
+  if (isLoading) return <LinearProgress />;
+  if (isError) return <p>{computeErrorFromQuery(error)}</p>;
+
+  return (
+    <>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Department</TableCell>
+            <TableCell align="right">Employees</TableCell>
+            {canManage && <TableCell align="right">Actions</TableCell>}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {departments?.map((department) => (
+            <TableRow key={department.id}>
+              <TableCell>
+                {editedDepartment?.id === department.id ? (
+                  <TextField
+                    size="small"
+                    variant="standard"
+                    value={editedDepartment.name}
+                    onChange={(event) =>
+                      setEditedDepartment({
+                        id: department.id,
+                        name: event.target.value,
+                      })
+                    }
+                  />
+                ) : (
+                  department.name
+                )}
+              </TableCell>
+              <TableCell align="right">{department.employeeCount}</TableCell>
+              {canManage && (
+                <TableCell align="right">
+                  {editedDepartment?.id === department.id ? (
+                    <>
+                      <IconButton
+                        aria-label="Save"
+                        onClick={onRenameSave}
+                        disabled={updateDepartmentMutation.isLoading}
+                      >
+                        <Save />
+                      </IconButton>
+                      <IconButton
+                        aria-label="Cancel"
+                        onClick={() => setEditedDepartment(undefined)}
+                      >
+                        <Cancel />
+                      </IconButton>
+                    </>
+                  ) : (
+                    <>
+                      <IconButton
+                        aria-label="Rename"
+                        onClick={() =>
+                          setEditedDepartment({
+                            id: department.id,
+                            name: department.name,
+                          })
+                        }
+                      >
+                        <Edit />
+                      </IconButton>
+                      <IconButton
+                        aria-label="Delete"
+                        onClick={() =>
+                          deleteDepartmentMutation.mutate(department.id)
+                        }
+                        disabled={deleteDepartmentMutation.isLoading}
+                      >
+                        <Delete />
+                      </IconButton>
+                    </>
+                  )}
+                </TableCell>
+              )}
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      {mutationError && (
+        <FormHelperText error>{`Error! ${mutationError}`}</FormHelperText>
+      )}
+      {canManage && (
+        <Box
+          component="form"
+          onSubmit={onCreateSubmit}
+          sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}
+        >
+          <TextField
+            fullWidth
+            size="small"
+            label="New department"
+            id="newDepartment"
+            name="newDepartment"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+          />
+          <Button
+            variant="contained"
+            type="submit"
+            disabled={!newName.trim() || createDepartmentMutation.isLoading}
+          >
+            Add
+          </Button>
+        </Box>
+      )}
+    </>
+  );
+}
+
+export default DepartmentsCatalogue;
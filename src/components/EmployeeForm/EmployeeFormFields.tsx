@@ -0,0 +1,232 @@
+import { useFormikContext } from 'formik';
+import {
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+} from '@mui/material';
+import { LocalizationProvider, DatePicker } from '@mui/x-date-pickers';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+
+import { STATES } from '@types';
+import { useDepartments } from '@services';
+
+import type { EmployeeFormValues } from './formValues';
+import ManagerAutocomplete from './ManagerAutocomplete';
+
+type EmployeeFormFieldsProps = {
+  employeeId?: string;
+};
+
+/**
+ * Fields of the employee form, to be rendered inside a Formik form handling EmployeeFormValues.
+ * Libraries:
+ *  - 'Formik' for form handling
+ *  - 'Material UI' for design, select and date-picker
+ * The departments of the select are loaded from the server catalogue.
+ * @component
+ * @param {string} [employeeId] - the id of the edited employee, undefined for a creation
+ * @returns {JSX.Element} - Employee form fields
+ */
+function EmployeeFormFields({ employeeId }: EmployeeFormFieldsProps) {
+  const { errors, touched, values, setFieldValue, handleChange, handleBlur } =
+    useFormikContext<EmployeeFormValues>();
+  const { data: departments = [] } = useDepartments();
+
+  return (
+    <>
+      <TextField
+        fullWidth
+        label="First Name"
+        id="firstName"
+        name="firstName"
+        value={values.firstName}
+        type="text"
+        error={touched.firstName && Boolean(errors.firstName)}
+        helperText={touched.firstName && errors.firstName}
+        onChange={handleChange}
+        onBlur={handleBlur}
+      />
+      <br />
+      <br />
+      <TextField
+        fullWidth
+        label="Last Name"
+        id="lastName"
+        name="lastName"
+        value={values.lastName}
+        type="text"
+        error={touched.lastName && Boolean(errors.lastName)}
+        helperText={touched.lastName && errors.lastName}
+        onChange={handleChange}
+        onBlur={handleBlur}
+      />
+      <br />
+      <br />
+      <LocalizationProvider dateAdapter={AdapterDateFns}>
+        <DatePicker
+          label="Date of Birth"
+          onChange={(value: Date | null) => {
+            return setFieldValue('dateOfBirth', value, true);
+          }}
+          value={values.dateOfBirth}
+          inputFormat="dd/MM/yyyy"
+          renderInput={(params) => (
+            <TextField
+              fullWidth
+              // eslint-disable-next-line react/jsx-props-no-spreading
+              {...params}
+              error={touched.dateOfBirth && Boolean(errors.dateOfBirth)}
+              helperText={touched.dateOfBirth && errors.dateOfBirth}
+              onBlur={handleBlur}
+              placeholder="mm/dd/yyyy"
+            />
+          )}
+        />
+        <br />
+        <br />
+        <DatePicker
+          label="Start Date"
+          onChange={(value: Date | null) => {
+            return setFieldValue('startDate', value, true);
+          }}
+          value={values.startDate}
+          inputFormat="dd/MM/yyyy"
+          renderInput={(params) => (
+            <TextField
+              fullWidth
+              // eslint-disable-next-line react/jsx-props-no-spreading
+              {...params}
+              error={touched.startDate && Boolean(errors.startDate)}
+              helperText={touched.startDate && errors.startDate}
+              onBlur={handleBlur}
+              placeholder="mm/dd/yyyy"
+            />
+          )}
+        />
+      </LocalizationProvider>
+      <br />
+      <br />
+      <fieldset className="address">
+        <br />
+        <legend>Address</legend>
+        <TextField
+          fullWidth
+          label="Street"
+          id="street"
+          name="street"
+          value={values.street}
+          type="text"
+          error={touched.street && Boolean(errors.street)}
+          helperText={touched.street && errors.street}
+          onChange={handleChange}
+          onBlur={handleBlur}
+        />
+        <br />
+        <br />
+        <TextField
+          fullWidth
+          label="City"
+          id="city"
+          name="city"
+          value={values.city}
+          type="text"
+          error={touched.city && Boolean(errors.city)}
+          helperText={touched.city && errors.city}
+          onChange={handleChange}
+          onBlur={handleBlur}
+        />
+        <br />
+        <br />
+        <FormControl fullWidth>
+          <InputLabel
+            id="state-label"
+            error={touched.state && Boolean(errors.state)}
+          >
+            State
+          </InputLabel>
+          <Select
+            labelId="state-label"
+            id="state"
+            name="state"
+            value={values.state}
+            label="State"
+            error={touched.state && Boolean(errors.state)}
+            onChange={handleChange}
+            onBlur={handleBlur}
+          >
+            {Object.entries(STATES).map(([abbr, name]) => (
+              <MenuItem key={abbr} value={abbr}>
+                {name}
+              </MenuItem>
+            ))}
+          </Select>
+          <FormHelperText error={touched.state && Boolean(errors.state)}>
+            {touched.state && errors.state}
+          </FormHelperText>
+        </FormControl>
+        <br />
+        <br />
+        <TextField
+          fullWidth
+          label="Zip Code"
+          id="zipcode"
+          name="zipcode"
+          value={values.zipcode}
+          inputProps={{ inputMode: 'numeric', maxLength: 5 }}
+          error={touched.zipcode && Boolean(errors.zipcode)}
+          helperText={touched.zipcode && errors.zipcode}
+          onChange={handleChange}
+          onBlur={handleBlur}
+        />
+        <br />
+      </fieldset>
+      <br />
+      <FormControl fullWidth>
+        <InputLabel
+          id="department-label"
+          error={touched.department && Boolean(errors.department)}
+        >
+          Department
+        </InputLabel>
+        <Select
+          labelId="department-label"
+          id="department"
+          name="department"
+          value={values.department}
+          label="Department"
+          error={touched.department && Boolean(errors.department)}
+          onChange={handleChange}
+          onBlur={handleBlur}
+        >
+          {departments.map(({ id, name }) => (
+            <MenuItem key={id} value={name}>
+              {name}
+            </MenuItem>
+          ))}
+        </Select>
+        <FormHelperText
+          error={touched.department && Boolean(errors.department)}
+        >
+          {touched.department && errors.department}
+        </FormHelperText>
+      </FormControl>
+      <br />
+      <br />
+      <ManagerAutocomplete
+        value={values.managerId}
+        onChange={(managerId) => setFieldValue('managerId', managerId)}
+        employeeId={employeeId}
+        error={touched.managerId ? errors.managerId : undefined}
+      />
+    </>
+  );
+}
+
+EmployeeFormFields.defaultProps = {
+  employeeId: undefined,
+};
+
+export default EmployeeFormFields;
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Autocomplete, TextField } from '@mui/material';
+
+import type { Employee } from '@types';
+import { useEmployee, useSearchEmployees } from '@services';
+
+type ManagerAutocompleteProps = {
+  value: string | null;
+  onChange: (managerId: string | null) => void;
+  employeeId?: string;
+  error?: string;
+};
+
+/**
+ * Format the name of an employee for the options of the autocomplete
+ * @param {Employee} employee - the employee
+ * @returns {string} - the first and last name, and the department
+ */
+const formatEmployee = (employee: Employee) =>
+  `${employee.firstName} ${employee.lastName} (${employee.department})`;
+
+/**
+ * Field picking the manager of an employee among the current employees, searched by name on the server.
+ * Libraries:
+ *  - 'Material UI' for the autocomplete
+ * @component
+ * @param {string | null} value - the id of the manager, null if the employee reports to nobody
+ * @param {Function} onChange - called with the id of the new manager
+ * @param {string} [employeeId] - the id of the edited employee, who can't be their own manager
+ * @param {string} [error] - the validation error of the field, shown under it
+ * @returns {JSX.Element} - Manager autocomplete
+ */
+function ManagerAutocomplete({
+  value,
+  onChange,
+  employeeId,
+  error,
+}: ManagerAutocompleteProps) {
+  const [inputValue, setInputValue] = useState('');
+  const { data: manager } = useEmployee(value ?? undefined);
+  const { data: employees = [], isFetching } = useSearchEmployees(inputValue);
+
+  const options = employees.filter(({ id }) => id !== employeeId);
+  if (manager && !options.some(({ id }) => id === manager.id)) {
+    options.unshift(manager);
+  }
+
+  return (
+    <Autocomplete
+      fullWidth
+      id="managerId"
+      options={options}
+      value={value && manager ? manager : null}
+      loading={isFetching}
+      filterOptions={(x) => x}
+      getOptionLabel={formatEmployee}
+      isOptionEqualToValue={(option, selected) => option.id === selected.id}
+      onChange={(event, selected) => onChange(selected?.id ?? null)}
+      onInputChange={(event, newInputValue) => setInputValue(newInputValue)}
+      noOptionsText={
+        inputValue.trim().length > 1
+          ? 'No employee found'
+          : 'Type at least 2 characters'
+      }
+      renderInput={(params) => (
+        <TextField
+          // eslint-disable-next-line react/jsx-props-no-spreading
+          {...params}
+          label="Manager"
+          error={Boolean(error)}
+          helperText={error}
+        />
+      )}
+    />
+  );
+}
+
+ManagerAutocomplete.defaultProps = {
+  employeeId: undefined,
+  error: undefined,
+};
+
+export default ManagerAutocomplete;
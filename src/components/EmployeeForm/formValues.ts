@@ -0,0 +1,80 @@
+import type {
+  Department,
+  Employee,
+  EmployeeAttributes,
+  StateAbbreviation,
+} from '@types';
+
+/**
+ * Values handled by the employee form fields
+ */
+export interface EmployeeFormValues {
+  firstName: string;
+  lastName: string;
+  dateOfBirth: Date | string;
+  startDate: Date | string;
+  street: string;
+  city: string;
+  zipcode: string;
+  state: StateAbbreviation | '';
+  department: Department | '';
+  managerId: string | null;
+}
+
+/**
+ * Values of an empty employee form
+ */
+export const EMPTY_EMPLOYEE_FORM_VALUES: EmployeeFormValues = {
+  firstName: '',
+  lastName: '',
+  dateOfBirth: '',
+  startDate: '',
+  street: '',
+  city: '',
+  zipcode: '',
+  state: '',
+  department: '',
+  managerId: null,
+};
+
+/**
+ * Convert an employee into form values
+ * @param {Employee} employee - the employee to edit
+ * @returns {EmployeeFormValues} - the values of the form
+ */
+export function toEmployeeFormValues(employee: Employee): EmployeeFormValues {
+  return {
+    firstName: employee.firstName,
+    lastName: employee.lastName,
+    dateOfBirth: employee.dateOfBirth ? new Date(employee.dateOfBirth) : '',
+    startDate: employee.startDate ? new Date(employee.startDate) : '',
+    street: employee.street ?? '',
+    city: employee.city,
+    zipcode: employee.zipcode ?? '',
+    state: employee.state,
+    department: employee.department,
+    managerId: employee.managerId ?? null,
+  };
+}
+
+/**
+ * Convert validated form values into employee attributes
+ * @param {EmployeeFormValues} values - the values of the form
+ * @returns {EmployeeAttributes} - the employee attributes, encoded for the server by the services
+ */
+export function toEmployeeAttributes(
+  values: EmployeeFormValues
+): EmployeeAttributes {
+  return {
+    firstName: values.firstName,
+    lastName: values.lastName,
+    dateOfBirth: new Date(values.dateOfBirth),
+    startDate: new Date(values.startDate),
+    street: values.street,
+    city: values.city,
+    zipcode: values.zipcode,
+    state: values.state as StateAbbreviation,
+    department: values.department as Department,
+    managerId: values.managerId,
+  };
+}
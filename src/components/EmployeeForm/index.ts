@@ -0,0 +1,4 @@
+import EmployeeFormFields from './EmployeeFormFields';
+
+export * from './formValues';
+export { EmployeeFormFields };
@@ -0,0 +1,94 @@
+import {
+  LinearProgress,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+
+import type { AuditAction } from '@types';
+import { useEmployeeHistory } from '@services';
+import computeErrorFromQuery, { EMPLOYEE_FIELD_LABELS } from '@utils';
+import MaskedValue from '../MaskedValue/MaskedValue';
+
+type EmployeeHistoryProps = {
+  id: string;
+};
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  CREATE: 'Created',
+  UPDATE: 'Updated',
+  ARCHIVE: 'Archived',
+  RESTORE: 'Restored',
+  DELETE: 'Purged',
+};
+
+/**
+ * Change history of an employee: who changed which field, when, and the value before and after the change.
+ * The values of the personal data hidden from the user are masked by the server.
+ * @component
+ * @param {string} id - the id of the employee
+ * @returns {JSX.Element} - Employee history panel
+ */
+function EmployeeHistory({ id }: EmployeeHistoryProps) {
+  const { data: events, isLoading, isError, error } = useEmployeeHistory(id);
+
+  if (isLoading) return <LinearProgress />;
+  if (isError) return <p>{computeErrorFromQuery(error)}</p>;
+  if (!events?.length) return <p>No change recorded</p>;
+
+  return (
+    <Table size="small">
+      <TableHead>
+        <TableRow>
+          <TableCell>When</TableCell>
+          <TableCell>Who</TableCell>
+          <TableCell>Action</TableCell>
+          <TableCell>Field</TableCell>
+          <TableCell>Before</TableCell>
+          <TableCell>After</TableCell>
+        </TableRow>
+      </TableHead>
+      <TableBody>
+        {events.map((event) => {
+          // Archiving and restoring change no field but are shown on one row
+          const changes = event.changes.length
+            ? event.changes
+            : [{ field: undefined, before: null, after: null }];
+
+          return changes.map((change, index) => (
+            <TableRow key={`${event.id}_${change.field}`}>
+              {index === 0 && (
+                <>
+                  <TableCell rowSpan={changes.length}>
+                    {new Date(event.date).toLocaleString()}
+                  </TableCell>
+                  <TableCell rowSpan={changes.length}>{event.user}</TableCell>
+                  <TableCell rowSpan={changes.length}>
+                    {ACTION_LABELS[event.action]}
+                  </TableCell>
+                </>
+              )}
+              <TableCell>
+                {change.field ? EMPLOYEE_FIELD_LABELS[change.field] : ''}
+              </TableCell>
+              {change.field && 'masked' in change && change.masked ? (
+                <TableCell colSpan={2}>
+                  <MaskedValue employee={{}} field={change.field} />
+                </TableCell>
+              ) : (
+                <>
+                  <TableCell>{change.before ?? ''}</TableCell>
+                  <TableCell>{change.after ?? ''}</TableCell>
+                </>
+              )}
+            </TableRow>
+          ));
+        })}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default EmployeeHistory;
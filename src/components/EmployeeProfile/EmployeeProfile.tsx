@@ -0,0 +1,266 @@
+import { useCallback, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Formik, Form } from 'formik';
+import { Box, Button, Typography } from '@mui/material';
+import { Modal } from 'react-modal-simple-customizable';
+
+import { Employee, EmployeeConflict, PersonalDataField, STATES } from '@types';
+import {
+  getConflictingEmployee,
+  useEmployee,
+  useUpdateEmployee,
+} from '@services';
+import { usePermission, useReducerCRUD } from '@hooks';
+import computeErrorFromQuery, {
+  computeFieldErrorsFromQuery,
+  employeeValidationSchema,
+  isFieldMasked,
+} from '@utils';
+import {
+  EmployeeFormFields,
+  toEmployeeAttributes,
+  toEmployeeFormValues,
+} from '../EmployeeForm';
+import MaskedValue from '../MaskedValue/MaskedValue';
+import UpdateConflict from '../UpdateConflict/UpdateConflict';
+
+import styles from './Modal.module.css';
+
+type EmployeeProfileProps = {
+  employee: Employee;
+};
+
+/**
+ * Format a date of the employee record for display
+ * @param {Date | string | null} date - the date to format
+ * @returns {string} - the formatted date or 'N/A'
+ */
+const formatDate = (date: Date | string | null | undefined) =>
+  date ? new Date(date).toLocaleDateString() : 'N/A';
+
+/**
+ * Full profile of an employee, read-only by default with an edit mode. Former employees can't be edited,
+ * and the edit mode is only offered to the roles allowed to edit the employees.
+ * The edit mode reuses the fields and validation rules of the create employee form.
+ * @component
+ * @param {Employee} employee - the employee to display
+ * @returns {JSX.Element} - Employee profile
+ */
+function EmployeeProfile({ employee }: EmployeeProfileProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const canEdit = usePermission('edit');
+  // The employee when the edition started: its version is the one the edits apply to
+  const [editedEmployee, setEditedEmployee] = useState(employee);
+  // The update refused because the employee was changed by someone else during the edition
+  const [conflict, setConflict] = useState<EmployeeConflict | null>(null);
+
+  // * CRUD states **********************************************************
+  const { stateCRUD, dispatchCRUD } = useReducerCRUD();
+  const { showModalResult, result } = stateCRUD;
+  // *************************************************************************
+
+  // * Updating Handler *******************************************************
+  const onSuccessUpdateHandler = useCallback(() => {
+    setIsEditing(false);
+    dispatchCRUD({
+      type: 'SHOW_RESULT',
+      payload: {
+        result: { type: 'UPDATE', error: undefined },
+        rowUpdateData: null,
+        rowDeleteId: null,
+      },
+    });
+  }, [dispatchCRUD]);
+  const onErrorUpdateHandler = useCallback(
+    (err: unknown, edited: Employee) => {
+      const current = getConflictingEmployee(err);
+      if (current) {
+        setConflict({ original: editedEmployee, edited, current });
+        return;
+      }
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'UPDATE', error: computeErrorFromQuery(err) },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      });
+    },
+    [dispatchCRUD, editedEmployee]
+  );
+  const updateEmployee = useUpdateEmployee(
+    onSuccessUpdateHandler,
+    onErrorUpdateHandler
+  );
+  const onOverwriteConflictHandler = (merged: Employee) => {
+    // A new conflict would be between the current employee and the merged edits
+    if (conflict) setEditedEmployee(conflict.current);
+    setConflict(null);
+    updateEmployee.mutate(merged);
+  };
+  const onKeepCurrentConflictHandler = () => {
+    setConflict(null);
+    setIsEditing(false);
+  };
+  // *************************************************************************
+
+  // * Manager ****************************************************************
+  const { data: manager } = useEmployee(employee.managerId ?? undefined);
+  // *************************************************************************
+
+  // The personal data hidden from the user is shown distinctly
+  const personalData = (field: PersonalDataField, value: React.ReactNode) =>
+    isFieldMasked(employee.maskedFields, field) ? (
+      <MaskedValue employee={employee} field={field} />
+    ) : (
+      value
+    );
+
+  const fields: [string, React.ReactNode][] = [
+    ['First Name', employee.firstName],
+    ['Last Name', employee.lastName],
+    [
+      'Date of Birth',
+      personalData('dateOfBirth', formatDate(employee.dateOfBirth)),
+    ],
+    ['Start Date', formatDate(employee.startDate)],
+    ['Department', employee.department],
+    ['Street', personalData('street', employee.street)],
+    ['City', employee.city],
+    ['State', STATES[employee.state] ?? employee.state],
+    ['Zip Code', personalData('zipcode', employee.zipcode)],
+    [
+      'Manager',
+      manager ? (
+        <Link to={`/employees/${manager.id}`}>
+          {`${manager.firstName} ${manager.lastName}`}
+        </Link>
+      ) : (
+        'N/A'
+      ),
+    ],
+  ];
+
+  return (
+    <>
+      {isEditing ? (
+        <Formik
+          initialValues={toEmployeeFormValues(editedEmployee)}
+          validationSchema={employeeValidationSchema}
+          onSubmit={(values, { setErrors }) => {
+            // The errors of the 422 responses are shown on the offending fields
+            updateEmployee.mutate(
+              {
+                id: employee.id,
+                ...toEmployeeAttributes(values),
+                version: editedEmployee.version,
+              },
+              { onError: (err) => setErrors(computeFieldErrorsFromQuery(err)) }
+            );
+          }}
+        >
+          {({ isSubmitting }) => (
+            <Form>
+              <EmployeeFormFields employeeId={employee.id} />
+              <br />
+              <br />
+              <Button
+                fullWidth
+                variant="contained"
+                size="large"
+                disabled={isSubmitting && updateEmployee.isLoading}
+                type="submit"
+              >
+                Save
+              </Button>
+              <br />
+              <br />
+              <Button
+                fullWidth
+                variant="outlined"
+                size="large"
+                type="button"
+                onClick={() => setIsEditing(false)}
+              >
+                Cancel
+              </Button>
+            </Form>
+          )}
+        </Formik>
+      ) : (
+        <Box sx={{ width: '100%' }}>
+          <Box component="dl" sx={{ m: 0 }}>
+            {fields.map(([label, value]) => (
+              <Box
+                key={label}
+                sx={{ display: 'flex', justifyContent: 'space-between', py: 1 }}
+              >
+                <Typography component="dt" sx={{ fontWeight: 'bold' }}>
+                  {label}
+                </Typography>
+                <Typography component="dd" sx={{ m: 0 }}>
+                  {value}
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+          <br />
+          {employee.archivedAt && (
+            <p>{`Former employee since ${formatDate(employee.archivedAt)}`}</p>
+          )}
+          {!employee.archivedAt && canEdit && (
+            <Button
+              fullWidth
+              variant="contained"
+              size="large"
+              type="button"
+              onClick={() => {
+                setEditedEmployee(employee);
+                setIsEditing(true);
+              }}
+            >
+              Edit
+            </Button>
+          )}
+        </Box>
+      )}
+      <UpdateConflict
+        conflict={conflict}
+        onOverwrite={onOverwriteConflictHandler}
+        onKeepCurrent={onKeepCurrentConflictHandler}
+      />
+      <Modal
+        show={showModalResult}
+        onClose={() => dispatchCRUD({ type: 'INIT' })}
+        className={styles.modal}
+        overlayClassName={styles.overlay}
+      >
+        <div className={styles.modalBody}>
+          {updateEmployee.isError && (
+            <>
+              <p className={styles.firstLine}>Error!</p>
+              <p className={styles.lastLine}>{result?.error}</p>
+            </>
+          )}
+          {updateEmployee.isSuccess && (
+            <p className={styles.firstLine}>Employee successfully updated!</p>
+          )}
+        </div>
+        <div className={styles.modalFooter}>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={() => dispatchCRUD({ type: 'INIT' })}
+          >
+            CLOSE
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
+
+export default EmployeeProfile;
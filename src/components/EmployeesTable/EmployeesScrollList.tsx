@@ -0,0 +1,426 @@
+import {
+  UIEvent,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Search } from '@mui/icons-material';
+import {
+  Box,
+  FormHelperText,
+  InputAdornment,
+  LinearProgress,
+  Skeleton,
+  TableSortLabel,
+  TextField,
+  Typography,
+} from '@mui/material';
+import { GridSortModel } from '@mui/x-data-grid';
+
+import type { Employee, EmployeeField, QueryOptionsInterface } from '@types';
+import { useInfiniteEmployees } from '@services';
+import { useMaskedFields } from '@hooks';
+import computeErrorFromQuery, { isFieldMasked } from '@utils';
+import { ArchivedToggle, ExportMenu, ModeToggle } from './TableComponents';
+import { COLUMNS } from './utils';
+import MaskedValue from '../MaskedValue/MaskedValue';
+
+// Height of the rows, fixed so that the position of every row is known before it is loaded
+const ROW_HEIGHT = 52;
+const HEADER_HEIGHT = 56;
+// Height of the scrolled area, header included
+const VIEWPORT_HEIGHT = 632;
+// Rows rendered above and below the visible ones, so that scrolling does not show blank rows
+const OVERSCAN = 5;
+// Beyond this number of rows from the loaded ones, e.g. when the scrollbar is dragged,
+// the list loads the visible rows directly instead of every page on the way
+const JUMP_DISTANCE = 100;
+// Delay before the typed quick filter is sent, like the quick filter of the DataGrid
+const QUICK_FILTER_DEBOUNCE = 500;
+
+// The columns share the sizes of the columns of the DataGrid
+const GRID_TEMPLATE_COLUMNS = COLUMNS.map(({ width, flex, minWidth }) =>
+  width ? `${width}px` : `minmax(${minWidth ?? 100}px, ${flex ?? 1}fr)`
+).join(' ');
+const MIN_WIDTH = COLUMNS.reduce(
+  (sum, { width, minWidth }) => sum + (width ?? minWidth ?? 100),
+  0
+);
+
+/**
+ * Format the value of a cell like the DataGrid does
+ * @param {Employee} employee - the employee of the row
+ * @param {EmployeeField} field - the field of the column
+ * @returns {string} - the value of the cell, 'N/A' if the value is not present
+ */
+const formatCellValue = (employee: Employee, field: EmployeeField): string => {
+  const value = employee[field];
+  if (value instanceof Date) return value.toLocaleDateString();
+  return value === null || value === undefined ? 'N/A' : String(value);
+};
+
+type EmployeesScrollListProps = {
+  queryOptions: QueryOptionsInterface;
+  startRow: number;
+  onSortChange: (sortModel: GridSortModel) => void;
+  onQuickFilterChange: (quickFilterValues: string[]) => void;
+  onArchivedChange: (archived: boolean) => void;
+  onPaginatedMode: (firstRow: number) => void;
+};
+
+/**
+ * The scroll mode of the table of employees: a virtualized list loading the employees as the user scrolls.
+ * Only the visible rows are rendered, the rows not loaded yet being shown as skeletons until their page is received.
+ * The list is sorted and filtered like the grid, and opens at the row the grid was showing.
+ * The employees can't be edited nor selected in this mode: a click on a row opens the profile of the employee.
+ * @component
+ * @param {QueryOptionsInterface} queryOptions - The current sorting and filtering options
+ * @param {number} startRow - The index of the row shown first when the list is opened
+ * @param {Function} onSortChange - The function sorting the employees
+ * @param {Function} onQuickFilterChange - The function changing the quick filter values
+ * @param {Function} onArchivedChange - The function switching between current and former employees
+ * @param {Function} onPaginatedMode - The function switching back to the grid, given the first visible row
+ * @returns {JSX.Element} - Virtualized list of employees
+ */
+function EmployeesScrollList({
+  queryOptions,
+  startRow,
+  onSortChange,
+  onQuickFilterChange,
+  onArchivedChange,
+  onPaginatedMode,
+}: EmployeesScrollListProps) {
+  const navigate = useNavigate();
+  const maskedFields = useMaskedFields();
+
+  // * Visible rows **********************************************************
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(startRow * ROW_HEIGHT);
+  // The row the pages are loaded from, moved when the user jumps far from the loaded rows,
+  // and back to the first row when the sorting or the filtering changes
+  const [anchor, setAnchor] = useState({ queryOptions, row: startRow });
+  const anchorRow = anchor.queryOptions === queryOptions ? anchor.row : 0;
+  // *************************************************************************
+
+  // * Fetching data *********************************************************
+  const {
+    data,
+    isLoading,
+    isFetching,
+    isError,
+    error,
+    hasNextPage,
+    hasPreviousPage,
+    fetchNextPage,
+    fetchPreviousPage,
+  } = useInfiniteEmployees(queryOptions, anchorRow, true);
+
+  const rows = useMemo(() => {
+    const loadedRows = new Map<number, Employee>();
+    data?.pages.forEach(({ offset, employees }) =>
+      employees.forEach((employee, index) =>
+        loadedRows.set(offset + index, employee)
+      )
+    );
+    return loadedRows;
+  }, [data]);
+  const total = data?.pages[data.pages.length - 1].total ?? 0;
+  const firstLoadedRow = data?.pages[0].offset ?? 0;
+  const lastLoadedRow = firstLoadedRow + rows.size - 1;
+  // *************************************************************************
+
+  // * Virtualization ********************************************************
+  const firstVisibleRow = Math.max(
+    Math.min(Math.floor(scrollTop / ROW_HEIGHT), total - 1),
+    0
+  );
+  const lastVisibleRow = Math.min(
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT - HEADER_HEIGHT) / ROW_HEIGHT),
+    total
+  );
+  const firstRenderedRow = Math.max(firstVisibleRow - OVERSCAN, 0);
+  const lastRenderedRow = Math.min(lastVisibleRow + OVERSCAN, total) - 1;
+
+  const onScrollHandler = (event: UIEvent<HTMLDivElement>) =>
+    setScrollTop(event.currentTarget.scrollTop);
+
+  // The list opens at the start row, once its height is known
+  const isPositionRestored = useRef(false);
+  useLayoutEffect(() => {
+    if (isPositionRestored.current || !total || !viewportRef.current) return;
+    isPositionRestored.current = true;
+    viewportRef.current.scrollTop = startRow * ROW_HEIGHT;
+  }, [total, startRow]);
+
+  // A new sorting or filtering is shown from the first employee
+  const previousQueryOptions = useRef(queryOptions);
+  useEffect(() => {
+    if (previousQueryOptions.current === queryOptions) return;
+    previousQueryOptions.current = queryOptions;
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  }, [queryOptions]);
+
+  // The pages of the rendered rows are loaded one at a time: nothing is loaded while a page is being fetched
+  useEffect(() => {
+    if (!data || isFetching || !total) return;
+    if (
+      firstRenderedRow > lastLoadedRow + JUMP_DISTANCE ||
+      lastRenderedRow < firstLoadedRow - JUMP_DISTANCE
+    ) {
+      setAnchor({ queryOptions, row: firstRenderedRow });
+    } else if (hasNextPage && lastRenderedRow > lastLoadedRow) {
+      fetchNextPage();
+    } else if (hasPreviousPage && firstRenderedRow < firstLoadedRow) {
+      fetchPreviousPage();
+    }
+  }, [
+    queryOptions,
+    data,
+    isFetching,
+    total,
+    firstRenderedRow,
+    lastRenderedRow,
+    firstLoadedRow,
+    lastLoadedRow,
+    hasNextPage,
+    hasPreviousPage,
+    fetchNextPage,
+    fetchPreviousPage,
+  ]);
+  // *************************************************************************
+
+  // * Quick filter **********************************************************
+  const quickFilter = (queryOptions.filterModel.quickFilterValues ?? []).join(
+    ' '
+  );
+  const [search, setSearch] = useState(quickFilter);
+  // The last quick filter sent by the search field, the other changes coming from outside, e.g. the back button
+  const sentQuickFilter = useRef(quickFilter);
+  useEffect(() => {
+    if (quickFilter === sentQuickFilter.current) return;
+    sentQuickFilter.current = quickFilter;
+    setSearch(quickFilter);
+  }, [quickFilter]);
+  // Only the typed search is sent, once the user stops typing
+  useEffect(() => {
+    const typedValues = search.split(' ').filter((value) => value);
+    if (typedValues.join(' ') === quickFilter) return undefined;
+    const timeout = setTimeout(() => {
+      sentQuickFilter.current = typedValues.join(' ');
+      onQuickFilterChange(typedValues);
+    }, QUICK_FILTER_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [search, quickFilter, onQuickFilterChange]);
+  // *************************************************************************
+
+  // * Sorting handler *******************************************************
+  const [currentSort] = queryOptions.sortModel;
+  const onSortClickHandler = (field: string) => () =>
+    onSortChange([
+      {
+        field,
+        sort:
+          currentSort?.field === field && currentSort.sort === 'asc'
+            ? 'desc'
+            : 'asc',
+      },
+    ]);
+  // *************************************************************************
+
+  const columnFiltersCount = queryOptions.filterModel.items.length;
+
+  return (
+    <Box sx={{ border: 1, borderColor: 'divider', borderRadius: 1 }}>
+      {/* TOOLBAR ************************************************************** */}
+      <Box
+        sx={{
+          p: 1,
+          display: 'flex',
+          flexWrap: 'wrap',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          gap: 1,
+        }}
+      >
+        <ModeToggle
+          mode="scroll"
+          onModeChange={() => onPaginatedMode(firstVisibleRow)}
+        />
+        <ArchivedToggle
+          archived={!!queryOptions.archived}
+          onArchivedChange={onArchivedChange}
+        />
+        <Box sx={{ display: 'flex', alignItems: 'center' }}>
+          {columnFiltersCount > 0 && (
+            <Typography variant="caption" sx={{ mr: 1 }}>
+              {`${columnFiltersCount} column filter${
+                columnFiltersCount > 1 ? 's' : ''
+              } applied`}
+            </Typography>
+          )}
+          <ExportMenu queryOptions={queryOptions} />
+          <TextField
+            variant="standard"
+            placeholder="Search…"
+            value={search}
+            onChange={(event) => setSearch(event.target.value)}
+            InputProps={{
+              inputProps: { 'aria-label': 'Search' },
+              startAdornment: (
+                <InputAdornment position="start">
+                  <Search fontSize="small" />
+                </InputAdornment>
+              ),
+            }}
+          />
+        </Box>
+      </Box>
+      {/* ************************************************************************** */}
+      {/* LIST ***************************************************************** */}
+      <Box sx={{ height: 4 }}>{isFetching && <LinearProgress />}</Box>
+      <Box
+        ref={viewportRef}
+        onScroll={onScrollHandler}
+        role="grid"
+        aria-rowcount={total}
+        sx={{ height: VIEWPORT_HEIGHT, overflow: 'auto' }}
+      >
+        <Box
+          role="row"
+          sx={{
+            position: 'sticky',
+            top: 0,
+            zIndex: 1,
+            height: HEADER_HEIGHT,
+            minWidth: MIN_WIDTH,
+            display: 'grid',
+            gridTemplateColumns: GRID_TEMPLATE_COLUMNS,
+            alignItems: 'center',
+            bgcolor: 'background.paper',
+            borderBottom: 1,
+            borderColor: 'divider',
+            fontWeight: 500,
+          }}
+        >
+          {COLUMNS.map(({ field, headerName, sortable }) => (
+            <Box key={field} role="columnheader" sx={{ px: 1 }}>
+              {sortable !== false &&
+              !isFieldMasked(maskedFields, field as EmployeeField) ? (
+                <TableSortLabel
+                  active={currentSort?.field === field}
+                  direction={
+                    currentSort?.field === field && currentSort.sort
+                      ? currentSort.sort
+                      : 'asc'
+                  }
+                  onClick={onSortClickHandler(field)}
+                >
+                  {headerName}
+                </TableSortLabel>
+              ) : (
+                headerName
+              )}
+            </Box>
+          ))}
+        </Box>
+        <Box
+          role="rowgroup"
+          sx={{
+            position: 'relative',
+            height: total * ROW_HEIGHT,
+            minWidth: MIN_WIDTH,
+          }}
+        >
+          {Array.from(
+            { length: Math.max(lastRenderedRow - firstRenderedRow + 1, 0) },
+            (_, index) => {
+              const rowIndex = firstRenderedRow + index;
+              const employee = rows.get(rowIndex);
+              return (
+                <Box
+                  key={employee?.id ?? `row-${rowIndex}`}
+                  role="row"
+                  aria-rowindex={rowIndex + 1}
+                  onClick={
+                    employee
+                      ? () => navigate(`/employees/${employee.id}`)
+                      : undefined
+                  }
+                  sx={{
+                    position: 'absolute',
+                    top: rowIndex * ROW_HEIGHT,
+                    left: 0,
+                    right: 0,
+                    height: ROW_HEIGHT,
+                    display: 'grid',
+                    gridTemplateColumns: GRID_TEMPLATE_COLUMNS,
+                    alignItems: 'center',
+                    borderBottom: 1,
+                    borderColor: 'divider',
+                    cursor: employee ? 'pointer' : 'default',
+                    '&:hover': { bgcolor: 'action.hover' },
+                  }}
+                >
+                  {COLUMNS.map(({ field }) => (
+                    <Box
+                      key={field}
+                      role="cell"
+                      sx={{
+                        px: 1,
+                        overflow: 'hidden',
+                        textOverflow: 'ellipsis',
+                        whiteSpace: 'nowrap',
+                      }}
+                    >
+                      {!employee && <Skeleton />}
+                      {employee &&
+                        (isFieldMasked(
+                          employee.maskedFields,
+                          field as EmployeeField
+                        ) ? (
+                          <MaskedValue
+                            employee={employee}
+                            field={field as EmployeeField}
+                          />
+                        ) : (
+                          formatCellValue(employee, field as EmployeeField)
+                        ))}
+                    </Box>
+                  ))}
+                </Box>
+              );
+            }
+          )}
+        </Box>
+        {!isLoading && !isError && total === 0 && (
+          <Typography sx={{ p: 2, textAlign: 'center' }}>
+            No employees
+          </Typography>
+        )}
+      </Box>
+      {isError && (
+        <FormHelperText error sx={{ px: 1 }}>
+          {computeErrorFromQuery(error)}
+        </FormHelperText>
+      )}
+      {/* ************************************************************************** */}
+      {/* FOOTER *************************************************************** */}
+      <Box sx={{ p: 1 }}>
+        <p>
+          {total === 0
+            ? 'Showing 0 entries'
+            : `Showing ${
+                firstVisibleRow + 1
+              } to ${lastVisibleRow} of ${total} entries`}
+        </p>
+      </Box>
+      {/* ************************************************************************** */}
+    </Box>
+  );
+}
+
+export default EmployeesScrollList;
@@ -1,42 +1,95 @@
-import { useCallback } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { Box, Button, LinearProgress } from '@mui/material';
 import {
   DataGrid,
   GridEventListener,
   GridRowParams,
+  GridSelectionModel,
   MuiEvent,
 } from '@mui/x-data-grid';
+import { useNavigationType } from 'react-router-dom';
 import { Modal } from 'react-modal-simple-customizable';
 
-import type { Employee } from '@types';
+import type {
+  BatchEmployeesRequest,
+  BatchEmployeesResponse,
+  Employee,
+  EmployeeConflict,
+  TableMode,
+  TableState,
+} from '@types';
 import {
+  getConflictingEmployee,
+  useBatchEmployees,
   useDeleteEmployee,
   useEmployees,
   usePrefetchEmployees,
+  usePurgeEmployee,
+  useRestoreEmployee,
   useUpdateEmployee,
 } from '@services';
-import { useQueryOptions, useReducerCRUD } from '@hooks';
-import computeErrorFromQuery from '@utils';
+import { useQueryOptions, useReducerCRUD, useTableSearchParams } from '@hooks';
+import computeErrorFromQuery, {
+  computeFieldErrorsFromQuery,
+  formatEmployeeValidationErrors,
+} from '@utils';
 import {
   Footer,
   NoRowsOverlay,
   Toolbar,
   useCRUDactionsColumn,
 } from './TableComponents';
-import { computeConfirmationMessages } from './utils';
+import { computeConfirmationMessages, validateEmployeeRow } from './utils';
+import UpdateConflict from '../UpdateConflict/UpdateConflict';
+import EmployeesScrollList from './EmployeesScrollList';
 
 import styles from './Modal.module.css';
 import usePagination from './hooks';
 
+// The page sizes offered by the grid, the only ones read from the URL
+const PAGE_SIZE_OPTIONS = [10, 25, 50, 100];
+
+/**
+ * State of the table when the URL has no search params
+ */
+const DEFAULT_TABLE_STATE: TableState = {
+  page: 0,
+  pageSize: 10,
+  sortModel: [{ field: 'firstName', sort: 'asc' }],
+  quickFilterValues: [],
+  mode: 'paginated',
+};
+
 /**
  * Fetch data from the server and display the dynamic MUI Table of employees
+ * The employees are browsed by pages, or loaded as the user scrolls a virtualized list in the scroll mode
+ * The page, the page size, the sorting, the quick filter and the mode are kept in the URL
  * @component
  * @returns Table of employees
  */
 function EmployeesTable() {
+  // * Table state from the URL *********************************************
+  const [tableState, setTableState] = useTableSearchParams(
+    DEFAULT_TABLE_STATE,
+    PAGE_SIZE_OPTIONS
+  );
+  const navigationType = useNavigationType();
+  // *************************************************************************
+
   // * Pagination states *****************************************************
-  const [paginationData, handlePageSizeChange] = usePagination();
-  const { pageSize, page, setPage, fetchEnabled } = paginationData;
+  const [paginationData, handlePageSizeChange] = usePagination(
+    tableState.pageSize,
+    tableState.page
+  );
+  const { pageSize, page, setPage, setPagination } = paginationData;
+  // *************************************************************************
+
+  // * Mode states ***********************************************************
+  const [mode, setMode] = useState<TableMode>(tableState.mode);
+  // The row the scroll mode opens at: the first row of the page shown by the grid
+  const [scrollStartRow, setScrollStartRow] = useState(
+    tableState.page * tableState.pageSize
+  );
   // *************************************************************************
 
   // * CRUD states ***********************************************************
@@ -44,27 +97,32 @@ function EmployeesTable() {
   const {
     showModalUpdate,
     showModalDelete,
+    showModalPurge,
+    showModalBatch,
     showModalResult,
     result,
     rowUpdateData,
     rowDeleteId,
+    batchRequest,
   } = stateCRUD;
   // *************************************************************************
 
-  // * Add CRUD actions columns to the DataGrid ******************************
-  const { columns, rowModesModel, setRowModesModel } =
-    useCRUDactionsColumn(dispatchCRUD);
-  // *************************************************************************
-
   // * Fetching and prefetching data *****************************************
-  const { queryOptions, onFilterChange, onSortChange } = useQueryOptions({
-    sortModel: [{ field: 'firstname', sort: 'asc' }],
-    filterModel: { items: [], quickFilterValues: [] },
+  const {
+    queryOptions,
+    onFilterChange,
+    onQuickFilterChange,
+    onSortChange,
+    onArchivedChange,
+  } = useQueryOptions({
+    sortModel: tableState.sortModel,
+    filterModel: { items: [], quickFilterValues: tableState.quickFilterValues },
+    archived: false,
   });
-  const { isLoading, data } = useEmployees(
+  const { isLoading, isError, error, data } = useEmployees(
     page,
     pageSize,
-    fetchEnabled,
+    mode === 'paginated',
     queryOptions
   );
   const rowCount = data?.total ? data?.total : 0;
@@ -72,6 +130,42 @@ function EmployeesTable() {
   usePrefetchEmployees(page, pageSize, rowCount, queryOptions);
   // *************************************************************************
 
+  // * Syncing the table state with the URL **********************************
+  // Every change of the table pushes a new entry in the browser history...
+  useEffect(() => {
+    setTableState({
+      page,
+      pageSize,
+      sortModel: queryOptions.sortModel,
+      quickFilterValues: queryOptions.filterModel.quickFilterValues ?? [],
+      mode,
+    });
+  }, [
+    page,
+    pageSize,
+    queryOptions.sortModel,
+    queryOptions.filterModel.quickFilterValues,
+    mode,
+    setTableState,
+  ]);
+  // ...and the browser back/forward buttons restore the table state from the URL
+  // (the URL changes pushed by the table itself are ignored)
+  useEffect(() => {
+    if (navigationType !== 'POP') return;
+    setPagination({ page: tableState.page, pageSize: tableState.pageSize });
+    onSortChange(tableState.sortModel);
+    onQuickFilterChange(tableState.quickFilterValues);
+    setScrollStartRow(tableState.page * tableState.pageSize);
+    setMode(tableState.mode);
+  }, [
+    tableState,
+    navigationType,
+    setPagination,
+    onSortChange,
+    onQuickFilterChange,
+  ]);
+  // *************************************************************************
+
   // * Deleting Handler *********************************************************
   const onSuccessDeleteHandler = useCallback(
     () =>
@@ -107,6 +201,194 @@ function EmployeesTable() {
   };
   // *************************************************************************
 
+  // * Restoring and purging handlers ******************************************
+  const onSuccessRestoreHandler = useCallback(
+    () =>
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'RESTORE', error: undefined },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      }),
+    [dispatchCRUD]
+  );
+  const onErrorRestoreHandler = useCallback(
+    (err: unknown) => {
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'RESTORE', error: computeErrorFromQuery(err) },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      });
+    },
+    [dispatchCRUD]
+  );
+  const restoreEmployeeMutation = useRestoreEmployee(
+    onSuccessRestoreHandler,
+    onErrorRestoreHandler
+  );
+
+  const onSuccessPurgeHandler = useCallback(
+    () =>
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'PURGE', error: undefined },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      }),
+    [dispatchCRUD]
+  );
+  const onErrorPurgeHandler = useCallback(
+    (err: unknown) => {
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'PURGE', error: computeErrorFromQuery(err) },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      });
+    },
+    [dispatchCRUD]
+  );
+  const purgeEmployeeMutation = usePurgeEmployee(
+    onSuccessPurgeHandler,
+    onErrorPurgeHandler
+  );
+  const onPurgeConfirmHandler = () => {
+    if (rowDeleteId) purgeEmployeeMutation.mutate(rowDeleteId.toString());
+  };
+  // *************************************************************************
+
+  // * Selection states ******************************************************
+  // The selected employees are kept by id so the selection persists across server pages
+  const [selectedEmployees, setSelectedEmployees] = useState<
+    Record<string, Employee>
+  >({});
+  const onSelectionModelChangeHandler = useCallback(
+    (selectionModel: GridSelectionModel) =>
+      setSelectedEmployees((previous) => {
+        const selection: Record<string, Employee> = {};
+        selectionModel.forEach((id) => {
+          const employee =
+            data?.employees.find((row) => row.id === id) ??
+            previous[id.toString()];
+          if (employee) selection[id.toString()] = employee;
+        });
+        return selection;
+      }),
+    [data]
+  );
+  // *************************************************************************
+
+  // * Batch actions handlers ************************************************
+  const onBatchActionHandler = useCallback(
+    (newBatchRequest: BatchEmployeesRequest) =>
+      dispatchCRUD({
+        type: 'CONFIRM_BATCH',
+        payload: {
+          result: null,
+          rowUpdateData: null,
+          rowDeleteId: null,
+          batchRequest: newBatchRequest,
+        },
+      }),
+    [dispatchCRUD]
+  );
+  const onSuccessBatchHandler = useCallback(
+    (batchData: BatchEmployeesResponse) => {
+      // Only the employees which failed remain selected
+      setSelectedEmployees((previous) => {
+        const selection = { ...previous };
+        batchData.results
+          .filter(({ status }) => status < 400)
+          .forEach(({ id }) => delete selection[id]);
+        return selection;
+      });
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'BATCH', error: undefined },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      });
+    },
+    [dispatchCRUD]
+  );
+  const onErrorBatchHandler = useCallback(
+    (err: unknown) => {
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'BATCH', error: computeErrorFromQuery(err) },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      });
+    },
+    [dispatchCRUD]
+  );
+  const batchEmployeesMutation = useBatchEmployees(
+    onSuccessBatchHandler,
+    onErrorBatchHandler
+  );
+  const onBatchConfirmHandler = () => {
+    if (batchRequest) batchEmployeesMutation.mutate(batchRequest);
+  };
+  const batchResults = batchEmployeesMutation.data?.results ?? [];
+  const batchFailures = batchResults.filter(({ status }) => status >= 400);
+  const batchActionLabel =
+    batchEmployeesMutation.variables?.action === 'archive'
+      ? 'moved to the former employees'
+      : 'updated';
+  const employeeName = (id: string) => {
+    const employee = selectedEmployees[id];
+    return employee ? `${employee.firstName} ${employee.lastName}` : id;
+  };
+  // *************************************************************************
+
+  // * Add CRUD actions columns to the DataGrid ******************************
+  const { columns, rowModesModel, setRowModesModel } = useCRUDactionsColumn(
+    dispatchCRUD,
+    !!queryOptions.archived,
+    restoreEmployeeMutation.mutate
+  );
+  // *************************************************************************
+
+  // * Switching between current and former employees *************************
+  const onArchivedChangeHandler = useCallback(
+    (archived: boolean) => {
+      onArchivedChange(archived);
+      setSelectedEmployees({});
+      setPage(0);
+    },
+    [onArchivedChange, setPage]
+  );
+  // *************************************************************************
+
+  // * Switching between the pages and the scroll mode ************************
+  // The scroll mode opens at the first row of the current page...
+  const onScrollModeHandler = useCallback(() => {
+    setScrollStartRow(page * pageSize);
+    setMode('scroll');
+  }, [page, pageSize]);
+  // ...and the grid opens at the page of the first visible row
+  const onPaginatedModeHandler = useCallback(
+    (firstRow: number) => {
+      setPage(Math.floor(firstRow / pageSize));
+      setMode('paginated');
+    },
+    [pageSize, setPage]
+  );
+  // *************************************************************************
+
   // * Updating handlers *****************************************************
   const onRowEditStartHandler = useCallback(
     (params: GridRowParams, event: MuiEvent<React.SyntheticEvent>) => {
@@ -126,6 +408,12 @@ function EmployeesTable() {
   const processRowUpdate = useCallback(
     (newRow: Employee, oldRow: Employee) =>
       new Promise<Employee>((resolve, reject) => {
+        // Same rules as the create employee form, the invalid cells already show their error
+        const errors = validateEmployeeRow(newRow);
+        if (errors.length > 0) {
+          reject(new Error(errors.join(', ')));
+          return;
+        }
         const confirmationMessages = computeConfirmationMessages(
           newRow,
           oldRow
@@ -146,6 +434,23 @@ function EmployeesTable() {
     [dispatchCRUD]
   );
 
+  // The row stays in edit mode so that the invalid values can be fixed.
+  // Cancelled and failed updates reject the old row: they are already handled.
+  const onProcessRowUpdateErrorHandler = useCallback(
+    (err: unknown) => {
+      if (!(err instanceof Error)) return;
+      dispatchCRUD({
+        type: 'SHOW_RESULT',
+        payload: {
+          result: { type: 'UPDATE', error: err.message },
+          rowUpdateData: null,
+          rowDeleteId: null,
+        },
+      });
+    },
+    [dispatchCRUD]
+  );
+
   const onCancelUpdateHandler = () => {
     if (rowUpdateData?.reject) rowUpdateData?.reject(rowUpdateData?.oldRow);
     dispatchCRUD({
@@ -165,12 +470,34 @@ function EmployeesTable() {
     });
   };
 
-  const onErrorUpdateHandler = (err: unknown) => {
+  // The update refused because the employee was changed by someone else since the row was loaded
+  const [conflict, setConflict] = useState<EmployeeConflict | null>(null);
+  // The current employee the user's edits were merged into, when they overwrite the current values
+  const [overwrittenEmployee, setOverwrittenEmployee] = useState<Employee>();
+
+  const onErrorUpdateHandler = (err: unknown, edited: Employee) => {
     if (rowUpdateData?.reject) rowUpdateData?.reject(rowUpdateData?.oldRow);
+    const current = getConflictingEmployee(err);
+    if (current) {
+      dispatchCRUD({ type: 'CANCEL' });
+      setConflict({
+        original: rowUpdateData?.oldRow ?? overwrittenEmployee ?? edited,
+        edited,
+        current,
+      });
+      return;
+    }
+    // The errors of a 422 response are listed with the label of their column
+    const fieldErrors = formatEmployeeValidationErrors(
+      computeFieldErrorsFromQuery(err)
+    );
     dispatchCRUD({
       type: 'SHOW_RESULT',
       payload: {
-        result: { type: 'UPDATE', error: computeErrorFromQuery(err) },
+        result: {
+          type: 'UPDATE',
+          error: [computeErrorFromQuery(err), ...fieldErrors].join(', '),
+        },
         rowUpdateData: null,
         rowDeleteId: null,
       },
@@ -189,73 +516,113 @@ function EmployeesTable() {
           id: oldRow?.id,
           firstName: newRow?.firstName,
           lastName: newRow?.lastName,
-          dateOfBirth: oldRow?.dateOfBirth,
-          startDate: oldRow?.startDate,
+          dateOfBirth: newRow?.dateOfBirth,
+          startDate: newRow?.startDate,
           street: newRow?.street,
           city: newRow?.city,
           zipcode: newRow?.zipcode,
           state: newRow?.state,
           department: newRow?.department,
+          managerId: oldRow?.managerId,
+          version: oldRow?.version,
         });
     }
   };
+  const onOverwriteConflictHandler = (employee: Employee) => {
+    setOverwrittenEmployee(conflict?.current);
+    setConflict(null);
+    updateEmployeeMutation.mutate(employee);
+  };
   // **************************************************************************
 
   return (
     <>
       {/* DATA GRID ************************************************************ */}
       <Box sx={{ width: '90%', maxWidth: 1280 }}>
-        <DataGrid
-          rows={rows}
-          rowCount={rowCount}
-          loading={isLoading}
-          rowsPerPageOptions={[10, 25, 50, 100]}
-          pagination
-          page={page}
-          pageSize={pageSize}
-          paginationMode="server"
-          onPageChange={(newPage: number) => setPage(newPage)}
-          onPageSizeChange={handlePageSizeChange}
-          columns={columns}
-          autoHeight
-          getRowHeight={() => 'auto'}
-          disableColumnFilter
-          disableColumnSelector
-          disableDensitySelector
-          disableColumnMenu
-          components={{
-            LoadingOverlay: LinearProgress,
-            Toolbar,
-            NoRowsOverlay,
-            Footer: Footer(rowCount),
-          }}
-          sortingMode="server"
-          filterMode="server"
-          onSortModelChange={onSortChange}
-          onFilterModelChange={onFilterChange}
-          editMode="row"
-          rowModesModel={rowModesModel}
-          onRowModesModelChange={(newModel) => setRowModesModel(newModel)}
-          onRowEditStart={onRowEditStartHandler}
-          onRowEditStop={onRowEditStopHandler}
-          processRowUpdate={processRowUpdate}
-          onProcessRowUpdateError={() => {}}
-          experimentalFeatures={{ newEditingApi: true }}
-          sx={{
-            '&.MuiDataGrid-root--densityCompact .MuiDataGrid-cell': {
-              py: '8px',
-            },
-            '&.MuiDataGrid-root--densityStandard .MuiDataGrid-cell': {
-              py: '15px',
-            },
-            '&.MuiDataGrid-root--densityComfortable .MuiDataGrid-cell': {
-              py: '22px',
-            },
-          }}
-        />
+        {mode === 'scroll' ? (
+          <EmployeesScrollList
+            queryOptions={queryOptions}
+            startRow={scrollStartRow}
+            onSortChange={onSortChange}
+            onQuickFilterChange={onQuickFilterChange}
+            onArchivedChange={onArchivedChangeHandler}
+            onPaginatedMode={onPaginatedModeHandler}
+          />
+        ) : (
+          <DataGrid
+            rows={rows}
+            rowCount={rowCount}
+            loading={isLoading}
+            error={isError ? computeErrorFromQuery(error) : undefined}
+            rowsPerPageOptions={PAGE_SIZE_OPTIONS}
+            pagination
+            page={page}
+            pageSize={pageSize}
+            paginationMode="server"
+            onPageChange={setPage}
+            onPageSizeChange={handlePageSizeChange}
+            columns={columns}
+            autoHeight
+            getRowHeight={() => 'auto'}
+            disableColumnSelector
+            disableDensitySelector
+            disableColumnMenu
+            components={{
+              LoadingOverlay: LinearProgress,
+              Toolbar,
+              NoRowsOverlay,
+              Footer: Footer(rowCount),
+            }}
+            componentsProps={{
+              toolbar: {
+                queryOptions,
+                onArchivedChange: onArchivedChangeHandler,
+                onModeChange: onScrollModeHandler,
+                selectedEmployees: Object.values(selectedEmployees),
+                onBatchAction: onBatchActionHandler,
+              },
+            }}
+            sortingMode="server"
+            filterMode="server"
+            sortModel={queryOptions.sortModel}
+            sortingOrder={['asc', 'desc']}
+            onSortModelChange={onSortChange}
+            filterModel={queryOptions.filterModel}
+            onFilterModelChange={onFilterChange}
+            checkboxSelection
+            disableSelectionOnClick
+            keepNonExistentRowsSelected
+            selectionModel={Object.keys(selectedEmployees)}
+            onSelectionModelChange={onSelectionModelChangeHandler}
+            editMode="row"
+            rowModesModel={rowModesModel}
+            onRowModesModelChange={(newModel) => setRowModesModel(newModel)}
+            onRowEditStart={onRowEditStartHandler}
+            onRowEditStop={onRowEditStopHandler}
+            processRowUpdate={processRowUpdate}
+            onProcessRowUpdateError={onProcessRowUpdateErrorHandler}
+            experimentalFeatures={{ newEditingApi: true }}
+            sx={{
+              '&.MuiDataGrid-root--densityCompact .MuiDataGrid-cell': {
+                py: '8px',
+              },
+              '&.MuiDataGrid-root--densityStandard .MuiDataGrid-cell': {
+                py: '15px',
+              },
+              '&.MuiDataGrid-root--densityComfortable .MuiDataGrid-cell': {
+                py: '22px',
+              },
+            }}
+          />
+        )}
       </Box>
       {/* ************************************************************************** */}
       {/* MODALS ******************************************************************* */}
+      <UpdateConflict
+        conflict={conflict}
+        onOverwrite={onOverwriteConflictHandler}
+        onKeepCurrent={() => setConflict(null)}
+      />
       <Modal
         show={showModalUpdate}
         onClose={onCancelUpdateHandler}
@@ -305,7 +672,7 @@ function EmployeesTable() {
       >
         <div className={styles.modalBody}>
           <h2>Are you sure?</h2>
-          <p>{`Pressing 'Yes' will delete the employee from the DB server!`}</p>
+          <p>{`Pressing 'Yes' will move the employee to the former employees!`}</p>
         </div>
         <div className={styles.modalFooter}>
           <Button
@@ -328,6 +695,79 @@ function EmployeesTable() {
           </Button>
         </div>
       </Modal>
+      <Modal
+        show={showModalPurge}
+        onClose={() => dispatchCRUD({ type: 'CANCEL' })}
+        className={styles.modal}
+        overlayClassName={styles.overlay}
+      >
+        <div className={styles.modalBody}>
+          <h2>Are you sure?</h2>
+          <p>{`Pressing 'Yes' will permanently delete the employee from the DB server!`}</p>
+        </div>
+        <div className={styles.modalFooter}>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={onPurgeConfirmHandler}
+          >
+            YES
+          </Button>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={() => dispatchCRUD({ type: 'CANCEL' })}
+          >
+            CANCEL
+          </Button>
+        </div>
+      </Modal>
+      <Modal
+        show={showModalBatch}
+        onClose={() => dispatchCRUD({ type: 'CANCEL' })}
+        className={styles.modal}
+        overlayClassName={styles.overlay}
+      >
+        <div className={styles.modalBody}>
+          <h2>Are you sure?</h2>
+          <h3>
+            {batchRequest?.action === 'archive'
+              ? `Pressing 'Yes' will move to the former employees:`
+              : `Pressing 'Yes' will move to the ${batchRequest?.changes?.department} department:`}
+          </h3>
+          <ul className={styles.listOfChanges}>
+            {batchRequest?.ids.map((id) => (
+              <li key={id}>
+                <p>{`- ${employeeName(id)}`}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+        <div className={styles.modalFooter}>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={onBatchConfirmHandler}
+          >
+            YES
+          </Button>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={() => dispatchCRUD({ type: 'CANCEL' })}
+          >
+            CANCEL
+          </Button>
+        </div>
+      </Modal>
       <Modal
         show={showModalResult}
         onClose={() => dispatchCRUD({ type: 'INIT' })}
@@ -335,7 +775,7 @@ function EmployeesTable() {
         overlayClassName={styles.overlay}
       >
         <div className={styles.modalBody}>
-          {updateEmployeeMutation.isError && (
+          {result?.error && (
             <>
               <p className={styles.firstLine}>Error!</p>
               <p className={styles.lastLine}>{result?.error}</p>
@@ -345,7 +785,33 @@ function EmployeesTable() {
             <p className={styles.firstLine}>Employee successfully updated!</p>
           )}
           {result?.type === 'DELETE' && deleteEmployeeMutation.isSuccess && (
-            <p className={styles.firstLine}>Employee successfully deleted!</p>
+            <p className={styles.firstLine}>
+              Employee moved to the former employees!
+            </p>
+          )}
+          {result?.type === 'RESTORE' && restoreEmployeeMutation.isSuccess && (
+            <p className={styles.firstLine}>Employee successfully restored!</p>
+          )}
+          {result?.type === 'PURGE' && purgeEmployeeMutation.isSuccess && (
+            <p className={styles.firstLine}>Employee permanently deleted!</p>
+          )}
+          {result?.type === 'BATCH' && batchEmployeesMutation.isSuccess && (
+            <>
+              <p className={styles.firstLine}>
+                {`${batchResults.length - batchFailures.length} of ${
+                  batchResults.length
+                } employees ${batchActionLabel}!`}
+              </p>
+              {batchFailures.length > 0 && (
+                <ul className={styles.listOfChanges}>
+                  {batchFailures.map(({ id, error: batchError }) => (
+                    <li key={id}>
+                      <p>{`- ${employeeName(id)}: ${batchError}`}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
           )}
         </div>
         <div className={styles.modalFooter}>
@@ -1,12 +1,27 @@
 import { Dispatch, useCallback, useMemo, useState } from 'react';
-import { Cancel, Delete, Edit, Save } from '@mui/icons-material';
+import { useNavigate } from 'react-router-dom';
+import {
+  Cancel,
+  Delete,
+  DeleteForever,
+  Edit,
+  FileDownload,
+  RestoreFromTrash,
+  Save,
+  Visibility,
+} from '@mui/icons-material';
 import {
   Box,
+  Button,
+  FormHelperText,
+  Menu,
   MenuItem,
   Pagination,
   Select,
   SelectChangeEvent,
   styled,
+  ToggleButton,
+  ToggleButtonGroup,
 } from '@mui/material';
 import {
   GridActionsCellItem,
@@ -17,25 +32,64 @@ import {
   GridRowModes,
   GridRowModesModel,
   GridToolbarContainer,
+  GridToolbarFilterButton,
   GridToolbarQuickFilter,
   useGridApiContext,
   useGridSelector,
 } from '@mui/x-data-grid';
 
-import { Employee, ActionCRUD } from '@types';
+import {
+  Employee,
+  ActionCRUD,
+  BatchEmployeesRequest,
+  Department,
+  EmployeeField,
+  QueryOptionsInterface,
+  TableMode,
+} from '@types';
+import { fetchAllEmployees, useDepartments } from '@services';
+import { useMaskedFields, usePermission } from '@hooks';
+import computeErrorFromQuery, { isFieldMasked } from '@utils';
 import { COLUMNS } from '../utils';
+import exportEmployees, { ExportFormat } from '../exportEmployees';
 
 /**
  * A custom hook that adds CRUD (Create, Read, Update, Delete) functionality to a DataGrid component in a React application using Material-UI library.
  * It uses the React Hooks `useState` and `useCallback` to manage the state and behavior of the DataGrid.
+ * The actions the role of the signed in user does not allow are hidden,
+ * and the columns of the personal data hidden from the user can't be sorted nor filtered.
  * @param {Dispatch<ActionCRUD>} dispatch - The dispatch function provided by the context store.
+ * @param {boolean} archived - true when the former employees are displayed: they can be restored or purged instead of edited or deleted
+ * @param {(id: string) => void} onRestore - The function restoring a former employee
  * @returns {Object} columns - An array of columns with an added actions column
  * @returns {string} deleteId - The id of the row that is to be deleted
  * @returns {GridRowModesModel} rowModesModel - An object that contains the current mode of each row in the DataGrid
  * @returns {Function} setRowModesModel - A function that updates the rowModesModel state
  */
-export function useCRUDactionsColumn(dispatchCRUD: Dispatch<ActionCRUD>) {
+export function useCRUDactionsColumn(
+  dispatchCRUD: Dispatch<ActionCRUD>,
+  archived: boolean,
+  onRestore: (id: string) => void
+) {
   const [rowModesModel, setRowModesModel] = useState<GridRowModesModel>({});
+  const navigate = useNavigate();
+  const { data: departments } = useDepartments();
+  const canEdit = usePermission('edit');
+  const canArchive = usePermission('archive');
+  const canPurge = usePermission('purge');
+  const maskedFields = useMaskedFields();
+
+  /**
+   * A callback function that navigates to the employee detail page when the view button is clicked.
+   * @param {GridRowId} id - the id of the row that is being viewed
+   * @returns {Function} - A function that navigates to the employee page
+   */
+  const handleViewClick = useCallback(
+    (id: GridRowId) => () => {
+      navigate(`/employees/${id}`);
+    },
+    [navigate]
+  );
 
   /**
    * A callback function that updates the row mode to "Edit" when the update button is clicked.
@@ -100,26 +154,103 @@ export function useCRUDactionsColumn(dispatchCRUD: Dispatch<ActionCRUD>) {
     [dispatchCRUD]
   );
 
+  /**
+   * A callback function that restores a former employee when the restore button is clicked.
+   * @param {GridRowId} id - the id of the row that is being restored
+   * @returns {Function} - A function that restores the employee
+   */
+  const handleRestoreClick = useCallback(
+    (id: GridRowId) => () => {
+      onRestore(id.toString());
+    },
+    [onRestore]
+  );
+
+  /**
+   * A callback function that asks for confirmation before permanently deleting a former employee.
+   * @param {GridRowId} id - the id of the row that is being purged
+   * @returns {Function} - A function that dispatches the purge confirmation
+   */
+  const handlePurgeClick = useCallback(
+    (id: GridRowId) => () => {
+      dispatchCRUD({
+        type: 'CONFIRM_PURGE',
+        payload: {
+          result: null,
+          rowUpdateData: null,
+          rowDeleteId: id.toString(),
+        },
+      });
+    },
+    [dispatchCRUD]
+  );
+
   /**
    * A memoized array of columns that includes an actions column that allows the user to perform CRUD operations.
-   * The actions column is added to the COLUMNS array.
+   * The actions column is added to the COLUMNS array, whose department editor selects a department of the catalogue.
    * @returns {Array} - An array of columns with an added actions column
    */
   const columns = useMemo(
     () => [
-      ...COLUMNS,
+      ...COLUMNS.map((column) => {
+        if (column.field === 'department') {
+          return {
+            ...column,
+            valueOptions: departments?.map(({ name }) => name) ?? [],
+          };
+        }
+        if (isFieldMasked(maskedFields, column.field as EmployeeField)) {
+          return { ...column, sortable: false, filterable: false };
+        }
+        return column;
+      }),
       {
         field: 'actions',
         type: 'actions',
         headerName: 'Actions',
         cellClassName: 'actions',
         // width: 10,
-        width: 100,
+        width: 130,
         minWidth: 30,
         getActions: (params: Employee) => {
           const { id } = params;
           const isInUpdateMode = rowModesModel[id]?.mode === GridRowModes.Edit;
 
+          if (archived) {
+            return [
+              <GridActionsCellItem
+                key={`${id}_view`}
+                icon={<Visibility />}
+                label="View"
+                className="textPrimary"
+                onClick={handleViewClick(id)}
+                color="inherit"
+              />,
+              ...(canArchive
+                ? [
+                    <GridActionsCellItem
+                      key={`${id}_restore`}
+                      icon={<RestoreFromTrash />}
+                      label="Restore"
+                      onClick={handleRestoreClick(id)}
+                      color="inherit"
+                    />,
+                  ]
+                : []),
+              ...(canPurge
+                ? [
+                    <GridActionsCellItem
+                      key={`${id}_purge`}
+                      icon={<DeleteForever />}
+                      label="Delete permanently"
+                      onClick={handlePurgeClick(id)}
+                      color="inherit"
+                    />,
+                  ]
+                : []),
+            ];
+          }
+
           if (isInUpdateMode) {
             return [
               <GridActionsCellItem
@@ -141,29 +272,54 @@ export function useCRUDactionsColumn(dispatchCRUD: Dispatch<ActionCRUD>) {
 
           return [
             <GridActionsCellItem
-              key={`${id}_save`}
-              icon={<Edit />}
-              label="Edit"
+              key={`${id}_view`}
+              icon={<Visibility />}
+              label="View"
               className="textPrimary"
-              onClick={handleUpdateClick(id)}
-              color="inherit"
-            />,
-            <GridActionsCellItem
-              key={`${id}_cancel`}
-              icon={<Delete />}
-              label="Delete"
-              onClick={handleDeleteClick(id)}
+              onClick={handleViewClick(id)}
               color="inherit"
             />,
+            ...(canEdit
+              ? [
+                  <GridActionsCellItem
+                    key={`${id}_save`}
+                    icon={<Edit />}
+                    label="Edit"
+                    className="textPrimary"
+                    onClick={handleUpdateClick(id)}
+                    color="inherit"
+                  />,
+                ]
+              : []),
+            ...(canArchive
+              ? [
+                  <GridActionsCellItem
+                    key={`${id}_cancel`}
+                    icon={<Delete />}
+                    label="Delete"
+                    onClick={handleDeleteClick(id)}
+                    color="inherit"
+                  />,
+                ]
+              : []),
           ];
         },
       },
     ],
     [
+      archived,
+      canArchive,
+      canEdit,
+      canPurge,
+      departments,
       handleCancelClick,
       handleDeleteClick,
+      handlePurgeClick,
+      handleRestoreClick,
       handleUpdateClick,
       handleSaveClick,
+      handleViewClick,
+      maskedFields,
       rowModesModel,
     ]
   );
@@ -213,24 +369,278 @@ function SelectRowsPerPage(): JSX.Element {
   );
 }
 
+type ExportMenuProps = {
+  queryOptions: QueryOptionsInterface;
+  employees?: Employee[];
+};
+
+/**
+ * A functional component that allows the user to download all the employees matching the current sorting and filtering options.
+ * Every server page is fetched, not only the displayed one, and the user chooses between CSV and XLSX formats.
+ * The personal data hidden from the signed in user is left out of the file.
+ * @param {QueryOptionsInterface} queryOptions - The current sorting and filtering options
+ * @param {Employee[]} [employees] - The employees to download instead of fetching the ones matching the query options
+ * @returns {JSX.Element} - The JSX markup for the ExportMenu component
+ * @component
+ */
+export function ExportMenu({
+  queryOptions,
+  employees,
+}: ExportMenuProps): JSX.Element {
+  const [anchorElement, setAnchorElement] = useState<HTMLElement | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string>();
+  const maskedFields = useMaskedFields();
+
+  const handleExportClick = (exportFormat: ExportFormat) => async () => {
+    setAnchorElement(null);
+    setIsExporting(true);
+    setError(undefined);
+    try {
+      await exportEmployees(
+        employees ?? (await fetchAllEmployees(queryOptions)),
+        exportFormat,
+        maskedFields
+      );
+    } catch (err) {
+      setError(computeErrorFromQuery(err));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        startIcon={<FileDownload />}
+        disabled={isExporting}
+        onClick={(event) => setAnchorElement(event.currentTarget)}
+      >
+        {isExporting ? 'Exporting...' : `Export${employees ? ' selected' : ''}`}
+      </Button>
+      <Menu
+        anchorEl={anchorElement}
+        open={Boolean(anchorElement)}
+        onClose={() => setAnchorElement(null)}
+      >
+        <MenuItem onClick={handleExportClick('csv')}>Download as CSV</MenuItem>
+        <MenuItem onClick={handleExportClick('xlsx')}>
+          Download as Excel (XLSX)
+        </MenuItem>
+      </Menu>
+      {error && <FormHelperText error>{error}</FormHelperText>}
+    </>
+  );
+}
+
+ExportMenu.defaultProps = {
+  employees: undefined,
+};
+
+type BulkActionsProps = {
+  queryOptions: QueryOptionsInterface;
+  selectedEmployees: Employee[];
+  onBatchAction: (batchRequest: BatchEmployeesRequest) => void;
+};
+
+/**
+ * A functional component displaying the actions available on the selected employees:
+ * delete them, move them to another department or download them.
+ * Former employees can only be downloaded, and the actions the role of the signed in user does not allow are hidden.
+ * @param {QueryOptionsInterface} queryOptions - The current sorting and filtering options
+ * @param {Employee[]} selectedEmployees - The selected employees, on every page
+ * @param {Function} onBatchAction - The function asking for the confirmation of a batch action
+ * @returns {JSX.Element} - The JSX markup for the BulkActions component
+ * @component
+ */
+function BulkActions({
+  queryOptions,
+  selectedEmployees,
+  onBatchAction,
+}: BulkActionsProps): JSX.Element {
+  const [department, setDepartment] = useState<Department | ''>('');
+  const { data: departments = [] } = useDepartments();
+  const ids = selectedEmployees.map((employee) => employee.id);
+  const canEdit = usePermission('edit');
+  const canArchive = usePermission('archive');
+
+  return (
+    <Box
+      sx={{
+        width: '100%',
+        display: 'flex',
+        alignItems: 'center',
+        gap: 1,
+      }}
+    >
+      <span>{`${selectedEmployees.length} selected`}</span>
+      {!queryOptions.archived && canArchive && (
+        <Button
+          size="small"
+          color="error"
+          startIcon={<Delete />}
+          onClick={() => onBatchAction({ action: 'archive', ids })}
+        >
+          Delete selected
+        </Button>
+      )}
+      {!queryOptions.archived && canEdit && (
+        <>
+          <Select
+            size="small"
+            displayEmpty
+            value={department}
+            onChange={(event: SelectChangeEvent<Department | ''>) =>
+              setDepartment(event.target.value as Department | '')
+            }
+          >
+            <MenuItem value="">Change department...</MenuItem>
+            {departments.map(({ id, name }) => (
+              <MenuItem key={id} value={name}>
+                {name}
+              </MenuItem>
+            ))}
+          </Select>
+          <Button
+            size="small"
+            disabled={!department}
+            onClick={() => {
+              if (department)
+                onBatchAction({
+                  action: 'update',
+                  ids,
+                  changes: { department },
+                });
+            }}
+          >
+            Apply
+          </Button>
+        </>
+      )}
+      <ExportMenu queryOptions={queryOptions} employees={selectedEmployees} />
+    </Box>
+  );
+}
+
+type ModeToggleProps = {
+  mode: TableMode;
+  onModeChange: (mode: TableMode) => void;
+};
+
+/**
+ * A functional component switching the table between the pages of the DataGrid and the list loading the employees as the user scrolls.
+ * @param {TableMode} mode - The current mode of the table
+ * @param {Function} onModeChange - The function switching to the other mode
+ * @returns {JSX.Element} - The JSX markup for the ModeToggle component
+ * @component
+ */
+export function ModeToggle({
+  mode,
+  onModeChange,
+}: ModeToggleProps): JSX.Element {
+  return (
+    <ToggleButtonGroup
+      size="small"
+      exclusive
+      value={mode}
+      onChange={(event, value: TableMode | null) => {
+        if (value) onModeChange(value);
+      }}
+    >
+      <ToggleButton value="paginated">Pages</ToggleButton>
+      <ToggleButton value="scroll">Scroll</ToggleButton>
+    </ToggleButtonGroup>
+  );
+}
+
+type ArchivedToggleProps = {
+  archived: boolean;
+  onArchivedChange: (archived: boolean) => void;
+};
+
+/**
+ * A functional component switching the table between the current and the former employees.
+ * @param {boolean} archived - true when the former employees are displayed
+ * @param {Function} onArchivedChange - The function switching between current and former employees
+ * @returns {JSX.Element} - The JSX markup for the ArchivedToggle component
+ * @component
+ */
+export function ArchivedToggle({
+  archived,
+  onArchivedChange,
+}: ArchivedToggleProps): JSX.Element {
+  return (
+    <ToggleButtonGroup
+      size="small"
+      exclusive
+      value={archived ? 'archived' : 'current'}
+      onChange={(event, value: string | null) => {
+        if (value) onArchivedChange(value === 'archived');
+      }}
+    >
+      <ToggleButton value="current">Current employees</ToggleButton>
+      <ToggleButton value="archived">Former employees</ToggleButton>
+    </ToggleButtonGroup>
+  );
+}
+
+type ToolbarProps = {
+  queryOptions: QueryOptionsInterface;
+  onArchivedChange: (archived: boolean) => void;
+  onModeChange: (mode: TableMode) => void;
+  selectedEmployees: Employee[];
+  onBatchAction: (batchRequest: BatchEmployeesRequest) => void;
+};
+
 /**
  * A functional component that represents a toolbar for a grid.
- * The component contains the SelectRowsPerPage component and the GridToolbarQuickFilter component.
+ * The component contains the SelectRowsPerPage component, the ModeToggle component switching to the scroll mode, the ArchivedToggle component,
+ * the GridToolbarFilterButton opening the column filters panel, the ExportMenu component and the GridToolbarQuickFilter component.
+ * When employees are selected, the BulkActions component is displayed below.
+ * @param {QueryOptionsInterface} queryOptions - The current sorting and filtering options, given through the toolbar componentsProps
+ * @param {Function} onArchivedChange - The function switching between current and former employees
+ * @param {Function} onModeChange - The function switching the table to the scroll mode
+ * @param {Employee[]} selectedEmployees - The selected employees, on every page
+ * @param {Function} onBatchAction - The function asking for the confirmation of a batch action
  * @returns {JSX.Element} - The JSX markup for the Toolbar component
  * @component
  */
-export function Toolbar(): JSX.Element {
+export function Toolbar({
+  queryOptions,
+  onArchivedChange,
+  onModeChange,
+  selectedEmployees,
+  onBatchAction,
+}: ToolbarProps): JSX.Element {
   return (
     <GridToolbarContainer
       sx={{
         p: 1,
         display: 'flex',
+        flexWrap: 'wrap',
         justifyContent: 'space-between',
         alignItems: 'center',
       }}
     >
       {SelectRowsPerPage()}
-      <GridToolbarQuickFilter />
+      <ModeToggle mode="paginated" onModeChange={onModeChange} />
+      <ArchivedToggle
+        archived={!!queryOptions.archived}
+        onArchivedChange={onArchivedChange}
+      />
+      <Box>
+        <GridToolbarFilterButton />
+        <ExportMenu queryOptions={queryOptions} />
+        <GridToolbarQuickFilter />
+      </Box>
+      {selectedEmployees.length > 0 && (
+        <BulkActions
+          queryOptions={queryOptions}
+          selectedEmployees={selectedEmployees}
+          onBatchAction={onBatchAction}
+        />
+      )}
     </GridToolbarContainer>
   );
 }
@@ -0,0 +1,109 @@
+import { ReactElement } from 'react';
+import { Box, TextField, Tooltip } from '@mui/material';
+import {
+  GridEditInputCell,
+  GridEditSingleSelectCell,
+  GridRenderEditCellParams,
+  useGridApiContext,
+} from '@mui/x-data-grid';
+import { LocalizationProvider, DatePicker } from '@mui/x-date-pickers';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+
+type ErrorTooltipProps = {
+  error: unknown;
+  children: ReactElement;
+};
+
+/**
+ * Tooltip showing the validation error of an edit cell, the `error` prop of the cell being the error message
+ * @param {unknown} error - the error message, nothing is shown if it is empty
+ * @param {ReactElement} children - the edit cell
+ * @returns {JSX.Element} - The JSX markup for the ErrorTooltip component
+ * @component
+ */
+function ErrorTooltip({ error, children }: ErrorTooltipProps): JSX.Element {
+  return (
+    <Tooltip
+      open={Boolean(error)}
+      title={typeof error === 'string' ? error : ''}
+      arrow
+    >
+      <Box sx={{ width: '100%', height: '100%' }}>{children}</Box>
+    </Tooltip>
+  );
+}
+
+/**
+ * Edit cell of the date columns: a date picker writing a Date into the edited row
+ * @param {GridRenderEditCellParams} props - the props given by the DataGrid
+ * @returns {JSX.Element} - The JSX markup for the DateEditCell component
+ * @component
+ */
+function DateEditCell({
+  id,
+  field,
+  value,
+  error,
+}: GridRenderEditCellParams<Date | null>): JSX.Element {
+  const apiRef = useGridApiContext();
+
+  return (
+    <ErrorTooltip error={error}>
+      <LocalizationProvider dateAdapter={AdapterDateFns}>
+        <DatePicker
+          value={value ?? null}
+          onChange={(date: Date | null) =>
+            apiRef.current.setEditCellValue({ id, field, value: date })
+          }
+          inputFormat="dd/MM/yyyy"
+          renderInput={(params) => (
+            <TextField
+              // eslint-disable-next-line react/jsx-props-no-spreading
+              {...params}
+              variant="standard"
+              size="small"
+              error={Boolean(error)}
+              sx={{ px: 1 }}
+            />
+          )}
+        />
+      </LocalizationProvider>
+    </ErrorTooltip>
+  );
+}
+
+/**
+ * Render the date picker edit cell
+ * @param {GridRenderEditCellParams} params - the props given by the DataGrid
+ * @returns {JSX.Element} - the edit cell
+ */
+export const renderDateEditCell = (params: GridRenderEditCellParams) => (
+  // eslint-disable-next-line react/jsx-props-no-spreading
+  <DateEditCell {...params} />
+);
+
+/**
+ * Render the text and number edit cell, with its validation error
+ * @param {GridRenderEditCellParams} params - the props given by the DataGrid
+ * @returns {JSX.Element} - the edit cell
+ */
+export const renderInputEditCell = (params: GridRenderEditCellParams) => (
+  <ErrorTooltip error={params.error}>
+    {/* eslint-disable-next-line react/jsx-props-no-spreading */}
+    <GridEditInputCell {...params} error={Boolean(params.error)} />
+  </ErrorTooltip>
+);
+
+/**
+ * Render the select edit cell, with its validation error
+ * @param {GridRenderEditCellParams} params - the props given by the DataGrid
+ * @returns {JSX.Element} - the edit cell
+ */
+export const renderSingleSelectEditCell = (
+  params: GridRenderEditCellParams
+) => (
+  <ErrorTooltip error={params.error}>
+    {/* eslint-disable-next-line react/jsx-props-no-spreading */}
+    <GridEditSingleSelectCell {...params} error={Boolean(params.error)} />
+  </ErrorTooltip>
+);
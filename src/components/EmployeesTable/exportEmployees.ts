@@ -0,0 +1,205 @@
+import { format } from 'date-fns';
+import writeXlsxFile from 'write-excel-file';
+
+import { Employee, PersonalDataField, STATES } from '@types';
+import { isFieldMasked, toCsv } from '@utils';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+const DATE_FORMAT = 'yyyy-MM-dd';
+
+/**
+ * Convert a date of the employee record into a Date object
+ * @param {Date | string | null | undefined} date - the date as received from the server
+ * @returns {Date | undefined} - the date, or undefined if missing or masked
+ */
+const toDate = (date: Date | string | null | undefined) =>
+  date ? new Date(date) : undefined;
+
+/**
+ * Move a day at local midnight to UTC midnight, the time Excel days are written at
+ * @param {Date} date - the day, at local midnight
+ * @returns {Date} - the same day, at UTC midnight
+ */
+const toUtcDay = (date: Date) =>
+  new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+
+/**
+ * @typedef {Object} ExportColumn: a column of the exported file
+ * @property {string} header - The header of the column
+ * @property {function} value - A function returning the value of the column for an employee
+ * @property {Function} type - The type of the cells in the XLSX file
+ * @property {number} width - The width of the column in the XLSX file
+ */
+type ExportColumn = {
+  header: string;
+  value: (employee: Employee) => string | number | Date | undefined;
+  type: StringConstructor | NumberConstructor | DateConstructor;
+  width: number;
+};
+
+/**
+ * The columns of the exported file. The columns of the personal data hidden from the user
+ * are replaced by their masked column, or left out: the file holds no more than the grid shows.
+ * @property {PersonalDataField} [personalData] - The personal data of the column
+ * @property {ExportColumn} [masked] - The column exported instead when the personal data is hidden from the user
+ */
+const EXPORT_COLUMNS: (ExportColumn & {
+  personalData?: PersonalDataField;
+  masked?: ExportColumn;
+})[] = [
+  { header: 'First Name', value: (e) => e.firstName, type: String, width: 15 },
+  { header: 'Last Name', value: (e) => e.lastName, type: String, width: 15 },
+  {
+    header: 'Start Date',
+    value: (e) => toDate(e.startDate),
+    type: Date,
+    width: 12,
+  },
+  {
+    header: 'Department',
+    value: (e) => e.department,
+    type: String,
+    width: 16,
+  },
+  {
+    header: 'Date of Birth',
+    value: (e) => toDate(e.dateOfBirth),
+    type: Date,
+    width: 12,
+    personalData: 'dateOfBirth',
+    masked: {
+      header: 'Year of Birth',
+      value: (e) => e.birthYear,
+      type: Number,
+      width: 10,
+    },
+  },
+  {
+    header: 'Street',
+    value: (e) => e.street ?? undefined,
+    type: String,
+    width: 30,
+    personalData: 'street',
+  },
+  { header: 'City', value: (e) => e.city, type: String, width: 15 },
+  {
+    header: 'State',
+    value: (e) => STATES[e.state] ?? e.state,
+    type: String,
+    width: 15,
+  },
+  {
+    header: 'Zip Code',
+    // A text, so that the leading zeros are kept
+    value: (e) => e.zipcode ?? undefined,
+    type: String,
+    width: 10,
+    personalData: 'zipcode',
+  },
+];
+
+/**
+ * @param {PersonalDataField[]} maskedFields - the personal data hidden from the user
+ * @returns {ExportColumn[]} - the columns the user may export
+ */
+const getExportColumns = (maskedFields: PersonalDataField[]): ExportColumn[] =>
+  EXPORT_COLUMNS.flatMap(({ personalData, masked, ...column }) => {
+    if (!personalData || !isFieldMasked(maskedFields, personalData)) {
+      return [column];
+    }
+    return masked ? [masked] : [];
+  });
+
+/**
+ * Make the browser download a file
+ * @param {Blob} blob - the content of the file
+ * @param {string} fileName - the name of the file
+ */
+function downloadFile(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking the URL right away may abort the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Download the employees as a CSV file, dates being formatted yyyy-MM-dd
+ * @param {Employee[]} employees - the employees to export
+ * @param {ExportColumn[]} columns - the exported columns
+ * @param {string} fileName - the name of the file, without extension
+ */
+function exportEmployeesToCsv(
+  employees: Employee[],
+  columns: ExportColumn[],
+  fileName: string
+) {
+  const rows = [
+    columns.map(({ header }) => header),
+    ...employees.map((employee) =>
+      columns.map(({ value }) => {
+        const cell = value(employee);
+        return cell instanceof Date ? format(cell, DATE_FORMAT) : cell;
+      })
+    ),
+  ];
+  // The BOM lets Excel open the file as UTF-8
+  downloadFile(
+    new Blob([`\uFEFF${toCsv(rows)}`], { type: 'text/csv;charset=utf-8' }),
+    `${fileName}.csv`
+  );
+}
+
+/**
+ * Download the employees as a XLSX file, dates being real dates formatted yyyy-mm-dd
+ * @async
+ * @param {Employee[]} employees - the employees to export
+ * @param {ExportColumn[]} columns - the exported columns
+ * @param {string} fileName - the name of the file, without extension
+ */
+async function exportEmployeesToXlsx(
+  employees: Employee[],
+  columns: ExportColumn[],
+  fileName: string
+) {
+  await writeXlsxFile(employees, {
+    schema: columns.map(({ header, value, type, width }) => ({
+      column: header,
+      type,
+      width,
+      // write-excel-file turns the dates into Excel days from their UTC time
+      value: (employee: Employee) => {
+        const cell = value(employee);
+        return cell instanceof Date ? toUtcDay(cell) : cell;
+      },
+    })),
+    dateFormat: DATE_FORMAT.toLowerCase(),
+    fileName: `${fileName}.xlsx`,
+  });
+}
+
+/**
+ * Download the employees as a CSV or XLSX file named after the current day
+ * @async
+ * @param {Employee[]} employees - the employees to export
+ * @param {ExportFormat} exportFormat - the format of the file
+ * @param {PersonalDataField[]} maskedFields - the personal data hidden from the user, left out of the file
+ */
+async function exportEmployees(
+  employees: Employee[],
+  exportFormat: ExportFormat,
+  maskedFields: PersonalDataField[]
+) {
+  const fileName = `employees_${format(new Date(), DATE_FORMAT)}`;
+  const columns = getExportColumns(maskedFields);
+  if (exportFormat === 'xlsx') {
+    await exportEmployeesToXlsx(employees, columns, fileName);
+  } else {
+    exportEmployeesToCsv(employees, columns, fileName);
+  }
+}
+
+export default exportEmployees;
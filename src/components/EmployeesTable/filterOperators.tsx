@@ -0,0 +1,92 @@
+import { ChangeEvent } from 'react';
+import { Box, TextField } from '@mui/material';
+import {
+  getGridDateOperators,
+  getGridNumericOperators,
+  getGridStringOperators,
+  GridFilterInputValueProps,
+  GridFilterOperator,
+} from '@mui/x-data-grid';
+
+/**
+ * Filter panel input with two date fields for the 'between' operator.
+ * The value of the filter item is the array [from, to] of dates formatted yyyy-mm-dd.
+ * @param {GridFilterInputValueProps} props - the props given by the DataGrid filter panel
+ * @returns {JSX.Element} - The JSX markup for the DateRangeInputValue component
+ * @component
+ */
+function DateRangeInputValue({
+  item,
+  applyValue,
+  focusElementRef,
+}: GridFilterInputValueProps): JSX.Element {
+  const [from, to] = Array.isArray(item.value) ? item.value : ['', ''];
+
+  const handleChange =
+    (index: number) => (event: ChangeEvent<HTMLInputElement>) => {
+      const newValue = [from ?? '', to ?? ''];
+      newValue[index] = event.target.value;
+      applyValue({ ...item, value: newValue });
+    };
+
+  return (
+    <Box
+      sx={{
+        display: 'inline-flex',
+        flexDirection: 'row',
+        alignItems: 'end',
+        height: 48,
+      }}
+    >
+      <TextField
+        name="from"
+        label="From"
+        type="date"
+        variant="standard"
+        value={from ?? ''}
+        onChange={handleChange(0)}
+        inputRef={focusElementRef}
+        InputLabelProps={{ shrink: true }}
+      />
+      <TextField
+        name="to"
+        label="To"
+        type="date"
+        variant="standard"
+        value={to ?? ''}
+        onChange={handleChange(1)}
+        InputLabelProps={{ shrink: true }}
+        sx={{ ml: 1 }}
+      />
+    </Box>
+  );
+}
+
+/**
+ * 'between' operator for date columns.
+ * Filtering is done by the server so there is no filter function on client side.
+ */
+const dateBetweenOperator: GridFilterOperator = {
+  label: 'between',
+  value: 'between',
+  getApplyFilterFn: () => null,
+  InputComponent: DateRangeInputValue,
+};
+
+/**
+ * Filter operators of the date columns: the DataGrid date operators plus 'between'
+ */
+export const dateFilterOperators: GridFilterOperator[] = [
+  ...getGridDateOperators(),
+  dateBetweenOperator,
+];
+
+/**
+ * Filter operators of the zip code column: the DataGrid numeric operators plus 'starts with'
+ */
+export const zipcodeFilterOperators: GridFilterOperator[] = [
+  ...getGridNumericOperators(),
+  ...getGridStringOperators().filter(
+    (operator) => operator.value === 'startsWith'
+  ),
+];
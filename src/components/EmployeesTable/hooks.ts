@@ -1,14 +1,18 @@
-import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { useCallback, useState } from 'react';
 
-interface PageData {
+interface Pagination {
   pageSize: number;
   page: number;
-  setPage: Dispatch<SetStateAction<number>>;
-  fetchEnabled: boolean;
+}
+
+interface PageData extends Pagination {
+  setPage: (newPage: number) => void;
+  setPagination: (newPagination: Pagination) => void;
 }
 
 /**
  * Custom hook that manages pagination state and provides an API to update the current page size.
+ * The page and the page size are updated together so that no request is sent for an intermediate state.
  *
  * @param initialPageSize - The initial value for the page size. Defaults to 10.
  * @param initialPage - The initial value for the current page. Defaults to 0.
@@ -20,38 +24,50 @@ const usePagination = (
   initialPageSize = 10,
   initialPage = 0
 ): [PageData, (newPageSize: number) => void] => {
-  const [pageSize, setPageSize] = useState(initialPageSize);
-  const [page, setPage] = useState(initialPage);
-
-  const [previousPageSize, setPreviousPageSize] = useState(0);
-  const [previousPage, setPreviousPage] = useState(0);
-  const [fetchEnabled, setFetchEnabled] = useState(true);
+  const [{ pageSize, page }, setPaginationState] = useState<Pagination>({
+    pageSize: initialPageSize,
+    page: initialPage,
+  });
 
   /**
-   * handlePageSizeChange - function to handle changes in page size
+   * setPage - function to change the current page
    *
-   * @param {number} newPageSize - new page size
+   * @param {number} newPage - new page
    */
-  const handlePageSizeChange = (newPageSize: number) => {
-    setFetchEnabled(false);
-    setPreviousPageSize(pageSize);
-    setPreviousPage(page);
+  const setPage = useCallback((newPage: number) => {
+    setPaginationState((previous) =>
+      previous.page === newPage ? previous : { ...previous, page: newPage }
+    );
+  }, []);
 
-    setPageSize(newPageSize);
-  };
+  /**
+   * setPagination - function to restore both the page and the page size, e.g. from the URL
+   *
+   * @param {Pagination} newPagination - new page and page size
+   */
+  const setPagination = useCallback((newPagination: Pagination) => {
+    setPaginationState((previous) =>
+      previous.page === newPagination.page &&
+      previous.pageSize === newPagination.pageSize
+        ? previous
+        : newPagination
+    );
+  }, []);
 
   /**
-   * useEffect hook that updates the current page when the page size changes.
+   * handlePageSizeChange - function to handle changes in page size
+   * The new page is the one containing the first row of the previous page.
+   *
+   * @param {number} newPageSize - new page size
    */
-  useEffect(() => {
-    const previousRow = previousPage * previousPageSize;
-    const newPageFixed = Math.floor(previousRow / pageSize);
-    setFetchEnabled(true);
-    setPage(newPageFixed);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [pageSize]);
-
-  return [{ pageSize, page, setPage, fetchEnabled }, handlePageSizeChange];
+  const handlePageSizeChange = useCallback((newPageSize: number) => {
+    setPaginationState((previous) => ({
+      pageSize: newPageSize,
+      page: Math.floor((previous.page * previous.pageSize) / newPageSize),
+    }));
+  }, []);
+
+  return [{ pageSize, page, setPage, setPagination }, handlePageSizeChange];
 };
 
 export default usePagination;
@@ -0,0 +1,23 @@
+import { GridRenderCellParams } from '@mui/x-data-grid';
+
+import type { Employee, EmployeeField } from '@types';
+import { isFieldMasked } from '@utils';
+import MaskedValue from '../MaskedValue/MaskedValue';
+
+/**
+ * Render the cell of a personal data column: the values masked by the server are shown distinctly
+ * @param {GridRenderCellParams} params - the props given by the DataGrid
+ * @returns {JSX.Element} - the cell
+ */
+const renderPersonalDataCell = ({
+  row,
+  field,
+  formattedValue,
+}: GridRenderCellParams<unknown, Employee, string | number>) =>
+  isFieldMasked(row.maskedFields, field as EmployeeField) ? (
+    <MaskedValue employee={row} field={field as EmployeeField} />
+  ) : (
+    formattedValue
+  );
+
+export default renderPersonalDataCell;
@@ -1,57 +1,76 @@
 import {
   GridColTypeDef,
   GridColumns,
-  GridComparatorFn,
+  GridPreProcessEditCellProps,
+  GridValueFormatterParams,
   GridValueGetterParams,
 } from '@mui/x-data-grid';
 
-import { Employee } from '@types';
-
-/**
- * @param {string} date1 - The first date to compare
- * @param {string} date2 - The second date to compare
- * @return {number} Returns negative number if date1 is less than date2, positive number if date1 is greater than date2, and 0 if they are equal.
- * @example dayInMonthComparator("20/01/2022", "20/01/2000")
- */
-export const dayInMonthComparator: GridComparatorFn<string> = (
-  date1,
-  date2
-) => {
-  const date1Parts = date1.split('/');
-  const date2Parts = date2.split('/');
-  const date1Object = new Date(
-    +date1Parts[2],
-    +date1Parts[1] - 1,
-    +date1Parts[0]
-  );
-  const date2Object = new Date(
-    +date2Parts[2],
-    +date2Parts[1] - 1,
-    +date2Parts[0]
-  );
-
-  return date2Object.getTime() - date1Object.getTime();
-};
+import { Employee, EmployeeField, STATES } from '@types';
+import {
+  computeEmployeeChanges,
+  EMPLOYEE_FIELD_LABELS,
+  formatEmployeeValidationErrors,
+  validateEmployee,
+  validateEmployeeField,
+} from '@utils';
+import { toEmployeeFormValues } from '../EmployeeForm';
+import { dateFilterOperators, zipcodeFilterOperators } from './filterOperators';
+import {
+  renderDateEditCell,
+  renderInputEditCell,
+  renderSingleSelectEditCell,
+} from './editCells';
+import renderPersonalDataCell from './personalDataCell';
 
 /**
  * The dateType object defines the properties for a grid column that represents a date.
- * @property {'string'} type - The type of data in the column
+ * @property {'date'} type - The type of data in the column
  * @property {number} width - The width of the column
- * @property {function} valueGetter - A function that takes in a GridValueGetterParams object and returns the formatted date string for the column cell. If the value is not present, it returns 'N/A'
- * @property {function} sortComparator - A function that takes in two values and compares them based on their day of the month.
+ * @property {boolean} editable - Dates are edited with a date picker
+ * @property {function} valueGetter - A function that takes in a GridValueGetterParams object and returns the date of the cell, decoded by the services, null if the value is not present
+ * @property {function} valueFormatter - A function that formats the date of the cell, 'N/A' if the value is not present
+ * @property {function} renderEditCell - The date picker edit cell
+ * @property {Array} filterOperators - The date filter operators, including 'between'
  */
 export const dateType: GridColTypeDef = {
-  type: 'string',
-  width: 110,
-  valueGetter: (params: GridValueGetterParams<string>) => {
-    if (!params.value) {
-      return 'N/A';
-    }
-    return new Date(params.value).toLocaleDateString();
-  },
-  sortComparator: dayInMonthComparator,
+  type: 'date',
+  width: 130,
+  editable: true,
+  valueGetter: (params: GridValueGetterParams<Date | undefined>) =>
+    params.value ?? null,
+  valueFormatter: (params: GridValueFormatterParams<Date | null>) =>
+    params.value ? params.value.toLocaleDateString() : 'N/A',
+  renderEditCell: renderDateEditCell,
+  filterOperators: dateFilterOperators,
 };
 
+/**
+ * Validate an edited employee with the shared employee rules
+ * @param {Employee} row - the edited employee
+ * @returns {string[]} - the error messages, prefixed by the label of their field
+ */
+export function validateEmployeeRow(row: Employee): string[] {
+  return formatEmployeeValidationErrors(
+    validateEmployee(toEmployeeFormValues(row))
+  );
+}
+
+/**
+ * Validate the value of an edit cell as it is typed, the error message is shown on the cell
+ * @param {EmployeeField} field - the field of the column
+ * @returns {function} - the preProcessEditCellProps function of the column
+ */
+const preProcessEmployeeField =
+  (field: EmployeeField) =>
+  ({ row, props }: GridPreProcessEditCellProps) => ({
+    ...props,
+    error: validateEmployeeField(
+      field,
+      toEmployeeFormValues({ ...row, [field]: props.value })
+    ),
+  });
+
 /**
  * @typedef {Object} GridColumns: an array of columns
  * @property {string} field - The field name of the column, used to identify the column in the grid data
@@ -62,6 +81,9 @@ export const dateType: GridColTypeDef = {
  * @property {number} [flex=undefined] - The flex value of the column, used to proportionally distribute * the available width among columns
  * @property {number} [minWidth=undefined] - The minimum width of the column
  * @property {number} [width=undefined] - The width of the column
+ * @property {function} [renderEditCell=undefined] - The edit cell, showing the validation error of the value
+ * @property {function} [preProcessEditCellProps=undefined] - Validates the edited value with the shared employee rules
+ * @property {function} [renderCell=undefined] - The cell of the personal data, showing distinctly the values masked by the server
  */
 export const COLUMNS: GridColumns = [
   {
@@ -69,6 +91,8 @@ export const COLUMNS: GridColumns = [
     headerName: 'First name',
     description: 'First name',
     editable: true,
+    renderEditCell: renderInputEditCell,
+    preProcessEditCellProps: preProcessEmployeeField('firstName'),
     flex: 50,
     minWidth: 100,
   },
@@ -77,6 +101,8 @@ export const COLUMNS: GridColumns = [
     headerName: 'Last name',
     description: 'Last name',
     editable: true,
+    renderEditCell: renderInputEditCell,
+    preProcessEditCellProps: preProcessEmployeeField('lastName'),
     flex: 50,
     minWidth: 100,
   },
@@ -85,12 +111,17 @@ export const COLUMNS: GridColumns = [
     headerName: 'Start Date',
     description: 'Start Date',
     ...dateType,
+    preProcessEditCellProps: preProcessEmployeeField('startDate'),
   },
   {
+    // The options of the department are loaded from the server catalogue by useCRUDactionsColumn
+    type: 'singleSelect',
     field: 'department',
     headerName: 'Department',
     description: 'Department',
     editable: true,
+    renderEditCell: renderSingleSelectEditCell,
+    preProcessEditCellProps: preProcessEmployeeField('department'),
     flex: 50,
     minWidth: 100,
   },
@@ -99,12 +130,17 @@ export const COLUMNS: GridColumns = [
     headerName: 'Date of Birth',
     description: 'Date of Birth',
     ...dateType,
+    preProcessEditCellProps: preProcessEmployeeField('dateOfBirth'),
+    renderCell: renderPersonalDataCell,
   },
   {
     field: 'street',
     headerName: 'Street',
     description: 'Street',
     editable: true,
+    renderEditCell: renderInputEditCell,
+    preProcessEditCellProps: preProcessEmployeeField('street'),
+    renderCell: renderPersonalDataCell,
     sortable: false,
     minWidth: 100,
     flex: 50,
@@ -114,23 +150,36 @@ export const COLUMNS: GridColumns = [
     headerName: 'City',
     description: 'City',
     editable: true,
+    renderEditCell: renderInputEditCell,
+    preProcessEditCellProps: preProcessEmployeeField('city'),
     minWidth: 100,
     flex: 50,
   },
   {
+    type: 'singleSelect',
     field: 'state',
     headerName: 'State',
     description: 'State',
     editable: true,
-    width: 60,
+    width: 80,
+    valueOptions: Object.keys(STATES).map((abbreviation) => ({
+      value: abbreviation,
+      label: abbreviation,
+    })),
+    renderEditCell: renderSingleSelectEditCell,
+    preProcessEditCellProps: preProcessEmployeeField('state'),
   },
   {
-    type: 'number',
+    // A text, so that the leading zeros are kept, filtered with the numeric operators
     field: 'zipcode',
     headerName: 'Zip Code',
     description: 'Zip Code',
     editable: true,
+    renderEditCell: renderInputEditCell,
+    preProcessEditCellProps: preProcessEmployeeField('zipcode'),
+    renderCell: renderPersonalDataCell,
     width: 80,
+    filterOperators: zipcodeFilterOperators,
   },
 ];
 
@@ -145,41 +194,8 @@ export function computeConfirmationMessages(
   newRow: Employee | undefined,
   oldRow: Employee | undefined
 ) {
-  const confirmationMessages = [];
-  if (newRow?.firstName !== oldRow?.firstName) {
-    confirmationMessages.push(
-      `- First name from '${oldRow?.firstName}' to '${newRow?.firstName}'`
-    );
-  }
-  if (newRow?.lastName !== oldRow?.lastName) {
-    confirmationMessages.push(
-      `- Last name from '${oldRow?.lastName}' to '${newRow?.lastName}'`
-    );
-  }
-  if (newRow?.department !== oldRow?.department) {
-    confirmationMessages.push(
-      `- Department from '${oldRow?.department}' to '${newRow?.department}'`
-    );
-  }
-  if (newRow?.street !== oldRow?.street) {
-    confirmationMessages.push(
-      `- Street from '${oldRow?.street}' to '${newRow?.street}'`
-    );
-  }
-  if (newRow?.city !== oldRow?.city) {
-    confirmationMessages.push(
-      `- City from '${oldRow?.city}' to '${newRow?.city}'`
-    );
-  }
-  if (newRow?.state !== oldRow?.state) {
-    confirmationMessages.push(
-      `- State from '${oldRow?.state}' to '${newRow?.state}'`
-    );
-  }
-  if (newRow?.zipcode !== oldRow?.zipcode) {
-    confirmationMessages.push(
-      `- Zip Code from '${oldRow?.zipcode}' to '${newRow?.zipcode}'`
-    );
-  }
-  return confirmationMessages;
+  return computeEmployeeChanges(oldRow, newRow).map(
+    ({ field, before, after }) =>
+      `- ${EMPLOYEE_FIELD_LABELS[field]} from '${before}' to '${after}'`
+  );
 }
@@ -0,0 +1,297 @@
+import { ChangeEvent, useCallback, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import {
+  Box,
+  Button,
+  MenuItem,
+  Select,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Modal } from 'react-modal-simple-customizable';
+
+import type { BulkCreateEmployeesResult } from '@types';
+import { useCreateEmployees, useDepartments } from '@services';
+import computeErrorFromQuery, { parseCsv } from '@utils';
+import { toEmployeeAttributes } from '../EmployeeForm';
+import {
+  IMPORT_COLUMNS,
+  ImportField,
+  guessColumnMapping,
+  validateImportRows,
+} from './utils';
+
+import styles from './Modal.module.css';
+
+/**
+ * Component that allows users to import employees from a CSV file.
+ * The columns of the file are mapped onto the employee fields, every row is validated with the rules of the create employee form,
+ * then the valid rows are sent to the server in one request which reports duplicates row by row.
+ * Libraries:
+ *  - 'Material UI' for design
+ *  - 'react-modal-simple-customizable' for showing server response in a modal
+ * @component
+ * @returns {JSX.Element} - Import employees form
+ */
+function ImportEmployees() {
+  const navigate = useNavigate();
+  const onClickViewCurrentEmployees = useCallback(
+    () => navigate('/employee-list', { replace: true }),
+    [navigate]
+  );
+
+  // * CSV states ************************************************************
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<(ImportField | '')[]>([]);
+
+  const onFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    const [fileHeaders = [], ...fileRows] = parseCsv(await file.text());
+    setFileName(file.name);
+    setHeaders(fileHeaders);
+    setRows(fileRows);
+    setMapping(guessColumnMapping(fileHeaders));
+  };
+
+  const onMappingChange = (column: number, field: ImportField | '') => {
+    setMapping((prevMapping) =>
+      prevMapping.map((prevField, index) => {
+        if (index === column) return field;
+        // A field can't be mapped twice
+        return prevField === field ? '' : prevField;
+      })
+    );
+  };
+  // *************************************************************************
+
+  // * Validation report *****************************************************
+  const { data: departments } = useDepartments();
+  const importRows = useMemo(
+    () =>
+      validateImportRows(
+        rows,
+        mapping,
+        departments?.map(({ name }) => name) ?? []
+      ),
+    [rows, mapping, departments]
+  );
+  const validRows = importRows.filter(
+    (row) => Object.keys(row.errors).length === 0
+  );
+  const invalidRows = importRows.filter(
+    (row) => Object.keys(row.errors).length > 0
+  );
+  const unmappedColumns = IMPORT_COLUMNS.filter(
+    ({ field }) => !mapping.includes(field)
+  );
+  // *************************************************************************
+
+  // * Importing Handler *****************************************************
+  const [showModalResult, setShowModalResult] = useState(false);
+  const [results, setResults] = useState<BulkCreateEmployeesResult[]>([]);
+  const [error, setError] = useState<string>();
+
+  const onSuccessImportHandler = useCallback(
+    (data: { results: BulkCreateEmployeesResult[] }) => {
+      setResults(data.results);
+      setError(undefined);
+      setShowModalResult(true);
+    },
+    []
+  );
+  const onErrorImportHandler = useCallback((err: unknown) => {
+    setResults([]);
+    setError(computeErrorFromQuery(err));
+    setShowModalResult(true);
+  }, []);
+  const createEmployees = useCreateEmployees(
+    onSuccessImportHandler,
+    onErrorImportHandler
+  );
+  const onImportHandler = () => {
+    createEmployees.mutate(
+      validRows.map((row) => toEmployeeAttributes(row.values))
+    );
+  };
+
+  const createdCount = results.filter((result) => !result.error).length;
+  const failedResults = results.filter((result) => result.error);
+  // *************************************************************************
+
+  return (
+    <>
+      <Box sx={{ width: '90%', maxWidth: 1280 }}>
+        <Button variant="contained" component="label">
+          Choose a CSV file
+          <input
+            hidden
+            type="file"
+            accept=".csv,text/csv"
+            onChange={onFileChange}
+          />
+        </Button>
+        {fileName && <p>{`${fileName}: ${rows.length} row(s)`}</p>}
+
+        {headers.length > 0 && (
+          <>
+            <h3>Columns</h3>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>CSV column</TableCell>
+                  <TableCell>Employee field</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {headers.map((header, column) => (
+                  // Headers may be duplicated in the file
+                  // eslint-disable-next-line react/no-array-index-key
+                  <TableRow key={`${header}_${column}`}>
+                    <TableCell>{header}</TableCell>
+                    <TableCell>
+                      <Select
+                        size="small"
+                        value={mapping[column] ?? ''}
+                        displayEmpty
+                        onChange={(event) =>
+                          onMappingChange(
+                            column,
+                            event.target.value as ImportField | ''
+                          )
+                        }
+                      >
+                        <MenuItem value="">
+                          <em>Ignore</em>
+                        </MenuItem>
+                        {IMPORT_COLUMNS.map(({ field, label }) => (
+                          <MenuItem key={field} value={field}>
+                            {label}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {unmappedColumns.length > 0 && (
+              <p>
+                {`Missing fields: ${unmappedColumns
+                  .map(({ label }) => label)
+                  .join(', ')}`}
+              </p>
+            )}
+
+            <h3>Validation report</h3>
+            <p>
+              {`${validRows.length} valid row(s), ${invalidRows.length} invalid row(s)`}
+            </p>
+            {invalidRows.length > 0 && (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Line</TableCell>
+                    <TableCell>Employee</TableCell>
+                    <TableCell>Errors</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {invalidRows.map(({ line, values, errors }) => (
+                    <TableRow key={line}>
+                      <TableCell>{line}</TableCell>
+                      <TableCell>{`${values.firstName} ${values.lastName}`}</TableCell>
+                      <TableCell>
+                        <ul className={styles.listOfChanges}>
+                          {Object.entries(errors).map(([field, message]) => (
+                            <li key={field}>
+                              {`${
+                                IMPORT_COLUMNS.find(
+                                  (column) => column.field === field
+                                )?.label
+                              }: ${message}`}
+                            </li>
+                          ))}
+                        </ul>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <br />
+            <Button
+              fullWidth
+              variant="contained"
+              size="large"
+              type="button"
+              disabled={validRows.length === 0 || createEmployees.isLoading}
+              onClick={onImportHandler}
+            >
+              {`Import ${validRows.length} valid employee(s)`}
+            </Button>
+          </>
+        )}
+      </Box>
+      <Modal
+        show={showModalResult}
+        onClose={() => setShowModalResult(false)}
+        className={styles.modal}
+        overlayClassName={styles.overlay}
+      >
+        <div className={styles.modalBody}>
+          {error ? (
+            <>
+              <p className={styles.firstLine}>Error!</p>
+              <p className={styles.lastLine}>{error}</p>
+            </>
+          ) : (
+            <>
+              <p className={styles.firstLine}>
+                {`${createdCount} employee(s) created!`}
+              </p>
+              {failedResults.length > 0 && (
+                <ul className={styles.listOfChanges}>
+                  {failedResults.map(({ index, error: rowError }) => (
+                    <li key={index}>
+                      <p>
+                        {`- Line ${validRows[index]?.line} (${validRows[index]?.values.firstName} ${validRows[index]?.values.lastName}): ${rowError}`}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+        <div className={styles.modalFooter}>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={() => setShowModalResult(false)}
+          >
+            CLOSE
+          </Button>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={onClickViewCurrentEmployees}
+          >
+            View current employees
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
+
+export default ImportEmployees;
@@ -0,0 +1,211 @@
+import { Department, STATES } from '@types';
+import { validateEmployee } from '@utils';
+import type { EmployeeFormValues } from '../EmployeeForm';
+
+// The manager is not imported: the CSV file knows nothing of the ids of the employees
+export type ImportField = Exclude<keyof EmployeeFormValues, 'managerId'>;
+
+/**
+ * @typedef {Object} ImportColumn: a field of the employee that can be imported
+ * @property {ImportField} field - The field of the employee
+ * @property {string} label - The display name of the field
+ * @property {string[]} aliases - The normalized CSV headers recognized for this field
+ */
+export const IMPORT_COLUMNS: {
+  field: ImportField;
+  label: string;
+  aliases: string[];
+}[] = [
+  {
+    field: 'firstName',
+    label: 'First name',
+    aliases: ['firstname', 'first', 'givenname'],
+  },
+  {
+    field: 'lastName',
+    label: 'Last name',
+    aliases: ['lastname', 'last', 'surname', 'familyname'],
+  },
+  {
+    field: 'dateOfBirth',
+    label: 'Date of Birth',
+    aliases: ['dateofbirth', 'birthdate', 'birthday', 'dob'],
+  },
+  {
+    field: 'startDate',
+    label: 'Start Date',
+    aliases: ['startdate', 'start', 'hiredate', 'hiringdate'],
+  },
+  {
+    field: 'street',
+    label: 'Street',
+    aliases: ['street', 'streetaddress', 'address'],
+  },
+  { field: 'city', label: 'City', aliases: ['city', 'town'] },
+  { field: 'state', label: 'State', aliases: ['state'] },
+  {
+    field: 'zipcode',
+    label: 'Zip Code',
+    aliases: ['zipcode', 'zip', 'postalcode', 'postcode'],
+  },
+  {
+    field: 'department',
+    label: 'Department',
+    aliases: ['department', 'dept'],
+  },
+];
+
+/**
+ * Result of the validation of one CSV row
+ * @property {number} line - The line of the row in the CSV file
+ * @property {EmployeeFormValues} values - The values of the employee
+ * @property {Object} errors - The validation error of each invalid field
+ */
+export interface ImportRow {
+  line: number;
+  values: EmployeeFormValues;
+  errors: Partial<Record<ImportField, string>>;
+}
+
+/**
+ * Normalize a CSV header: lower case letters only
+ * @param {string} header - the CSV header
+ * @returns {string} - the normalized header
+ * @example normalizeHeader('First Name') // 'firstname'
+ */
+const normalizeHeader = (header: string) =>
+  header.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Guess the employee field of each CSV column from its header
+ * @param {string[]} headers - the CSV headers
+ * @returns {(ImportField | '')[]} - the field of each column, '' if the column is ignored
+ */
+export function guessColumnMapping(headers: string[]): (ImportField | '')[] {
+  const usedFields = new Set<ImportField>();
+
+  return headers.map((header) => {
+    const column = IMPORT_COLUMNS.find(
+      ({ field, aliases }) =>
+        !usedFields.has(field) && aliases.includes(normalizeHeader(header))
+    );
+    if (!column) return '';
+    usedFields.add(column.field);
+    return column.field;
+  });
+}
+
+/**
+ * Build the day of a date of the CSV, refusing the days that don't exist
+ * @param {number} year - the year of the day
+ * @param {number} month - the month of the day, from 1 to 12
+ * @param {number} day - the day of the month
+ * @returns {Date | undefined} - the day at local midnight, undefined if it doesn't exist, e.g. 31/02/2020
+ */
+function toExistingDay(
+  year: number,
+  month: number,
+  day: number
+): Date | undefined {
+  // Date rolls the days over, e.g. 31/02/2020 becomes 2 March 2020
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year &&
+    date.getMonth() === month - 1 &&
+    date.getDate() === day
+    ? date
+    : undefined;
+}
+
+/**
+ * Parse a date of the CSV, written dd/mm/yyyy as in the form or yyyy-mm-dd
+ * @param {string} raw - the cell of the CSV
+ * @returns {Date | string} - the date, or the raw cell if it is not an existing date so validation reports it
+ */
+export function parseImportDate(raw: string): Date | string {
+  const text = raw.trim();
+
+  const frenchDate = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (frenchDate) {
+    return (
+      toExistingDay(+frenchDate[3], +frenchDate[2], +frenchDate[1]) ?? text
+    );
+  }
+  const isoDate = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (isoDate) {
+    return toExistingDay(+isoDate[1], +isoDate[2], +isoDate[3]) ?? text;
+  }
+  return text;
+}
+
+/**
+ * Find the state abbreviation from an abbreviation or a state name
+ * @param {string} raw - the cell of the CSV
+ * @returns {string} - the abbreviation, or the raw cell if it is not a state so validation reports it
+ * @example parseImportState('california') // 'CA'
+ */
+function parseImportState(raw: string): string {
+  const text = raw.trim();
+  const abbreviation = Object.entries(STATES).find(
+    ([abbr, name]) =>
+      abbr === text.toUpperCase() || name.toLowerCase() === text.toLowerCase()
+  )?.[0];
+  return abbreviation ?? text;
+}
+
+/**
+ * Find the department of the catalogue from its name, whatever its case
+ * @param {string} raw - the cell of the CSV
+ * @param {Department[]} departments - the departments of the catalogue
+ * @returns {string} - the department, or the raw cell if it is not a department so validation reports it
+ * @example parseImportDepartment('human resources', departments) // 'Human Resources'
+ */
+function parseImportDepartment(raw: string, departments: Department[]): string {
+  const text = raw.trim().toLowerCase();
+  const department = departments.find((name) => name.toLowerCase() === text);
+  return department ?? raw.trim();
+}
+
+/**
+ * Map the CSV rows onto the employee fields and validate them with the rules of the employee form
+ * @param {string[][]} rows - the CSV rows, without the header
+ * @param {(ImportField | '')[]} mapping - the field of each column
+ * @param {Department[]} departments - the departments of the catalogue
+ * @returns {ImportRow[]} - the values and validation errors of every row
+ */
+export function validateImportRows(
+  rows: string[][],
+  mapping: (ImportField | '')[],
+  departments: Department[]
+): ImportRow[] {
+  return rows.map((row, index) => {
+    const cells: Partial<Record<ImportField, string>> = {};
+    mapping.forEach((field, column) => {
+      if (field) cells[field] = row[column]?.trim() ?? '';
+    });
+
+    const values: EmployeeFormValues = {
+      firstName: cells.firstName ?? '',
+      lastName: cells.lastName ?? '',
+      dateOfBirth: parseImportDate(cells.dateOfBirth ?? ''),
+      startDate: parseImportDate(cells.startDate ?? ''),
+      street: cells.street ?? '',
+      city: cells.city ?? '',
+      zipcode: cells.zipcode ?? '',
+      state: parseImportState(cells.state ?? '') as EmployeeFormValues['state'],
+      department: parseImportDepartment(cells.department ?? '', departments),
+      managerId: null,
+    };
+
+    const errors: ImportRow['errors'] = validateEmployee(values);
+    if (
+      !errors.department &&
+      departments.length &&
+      !departments.includes(values.department)
+    ) {
+      errors.department = 'Unknown department';
+    }
+
+    // Line 1 is the header
+    return { line: index + 2, values, errors };
+  });
+}
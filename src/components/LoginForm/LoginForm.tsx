@@ -0,0 +1,94 @@
+import { Formik, Form } from 'formik';
+import { Button, FormHelperText, TextField } from '@mui/material';
+import * as Yup from 'yup';
+
+import type { LoginRequest, Session } from '@types';
+import { useLogin } from '@services';
+import computeErrorFromQuery from '@utils';
+
+type LoginFormProps = {
+  onLogin: (session: Session) => void;
+};
+
+const INITIAL_VALUES: LoginRequest = { username: '', password: '' };
+
+const loginValidationSchema = Yup.object({
+  username: Yup.string().trim().required('Username is required'),
+  password: Yup.string().required('Password is required'),
+});
+
+/**
+ * Form signing in a user with their username and password
+ * Libraries:
+ *  - 'Formik' and Yup for form handling and validation
+ *  - 'Material UI' for design
+ * @component
+ * @param {(session: Session) => void} onLogin - called with the new session once the user is signed in
+ * @returns {JSX.Element} - Login form
+ */
+function LoginForm({ onLogin }: LoginFormProps) {
+  const login = useLogin(onLogin);
+
+  return (
+    <Formik
+      initialValues={INITIAL_VALUES}
+      validationSchema={loginValidationSchema}
+      onSubmit={(values) =>
+        login.mutate({
+          username: values.username.trim(),
+          password: values.password,
+        })
+      }
+    >
+      {({ errors, touched, values, handleChange, handleBlur }) => (
+        <Form>
+          <TextField
+            fullWidth
+            label="Username"
+            id="username"
+            name="username"
+            autoComplete="username"
+            value={values.username}
+            error={touched.username && Boolean(errors.username)}
+            helperText={touched.username && errors.username}
+            onChange={handleChange}
+            onBlur={handleBlur}
+          />
+          <br />
+          <br />
+          <TextField
+            fullWidth
+            label="Password"
+            id="password"
+            name="password"
+            type="password"
+            autoComplete="current-password"
+            value={values.password}
+            error={touched.password && Boolean(errors.password)}
+            helperText={touched.password && errors.password}
+            onChange={handleChange}
+            onBlur={handleBlur}
+          />
+          {login.isError && (
+            <FormHelperText error>
+              {computeErrorFromQuery(login.error)}
+            </FormHelperText>
+          )}
+          <br />
+          <br />
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="submit"
+            disabled={login.isLoading}
+          >
+            Sign in
+          </Button>
+        </Form>
+      )}
+    </Formik>
+  );
+}
+
+export default LoginForm;
@@ -0,0 +1,42 @@
+import { Lock } from '@mui/icons-material';
+import { Box, Tooltip } from '@mui/material';
+
+import type { EmployeeField, EmployeeRecord } from '@types';
+import { describeMaskedValue, EMPLOYEE_FIELD_LABELS } from '@utils';
+
+type MaskedValueProps = {
+  employee: Pick<EmployeeRecord, 'birthYear'>;
+  field: EmployeeField;
+};
+
+/**
+ * A personal data of an employee the role of the signed in user does not allow to see, masked by the server.
+ * It is shown greyed out with a lock, distinctly from a missing value, and with what the user may know of it, e.g. the year of birth.
+ * @component
+ * @param {Pick<EmployeeRecord, 'birthYear'>} employee - the employee, as sent by the server
+ * @param {EmployeeField} field - the masked field
+ * @returns {JSX.Element} - Masked value
+ */
+function MaskedValue({ employee, field }: MaskedValueProps) {
+  return (
+    <Tooltip
+      title={`The ${EMPLOYEE_FIELD_LABELS[field]} is hidden from your role`}
+    >
+      <Box
+        component="span"
+        sx={{
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: 0.5,
+          color: 'text.disabled',
+          fontStyle: 'italic',
+        }}
+      >
+        <Lock fontSize="inherit" />
+        {describeMaskedValue(employee, field)}
+      </Box>
+    </Tooltip>
+  );
+}
+
+export default MaskedValue;
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ExpandLess, ExpandMore } from '@mui/icons-material';
+import {
+  Collapse,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemText,
+} from '@mui/material';
+
+import type { EmployeeReport } from '@types';
+import { useEmployeeReports } from '@services';
+import computeErrorFromQuery from '@utils';
+
+type OrgChartNodeProps = {
+  employee: EmployeeReport;
+  level: number;
+};
+
+type OrgChartSubtreeProps = {
+  managerId: string | null;
+  level: number;
+};
+
+/**
+ * The employees reporting to a manager, loaded when the subtree is rendered
+ * @component
+ * @param {string | null} managerId - the id of the manager, null for the top of the hierarchy
+ * @param {number} level - the depth of the subtree, used for indentation
+ * @returns {JSX.Element} - List of the reports
+ */
+function OrgChartSubtree({ managerId, level }: OrgChartSubtreeProps) {
+  const {
+    data: reports,
+    isLoading,
+    isError,
+    error,
+  } = useEmployeeReports(managerId);
+
+  if (isLoading) return <LinearProgress />;
+  if (isError) return <p>{computeErrorFromQuery(error)}</p>;
+  if (!reports?.length) return <p>No employee</p>;
+
+  return (
+    <List dense disablePadding>
+      {reports.map((report) => (
+        // OrgChartNode and OrgChartSubtree render each other recursively
+        // eslint-disable-next-line @typescript-eslint/no-use-before-define
+        <OrgChartNode key={report.id} employee={report} level={level} />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * One employee of the org chart, whose reports can be expanded or collapsed
+ * @component
+ * @param {EmployeeReport} employee - the employee and their number of direct reports
+ * @param {number} level - the depth of the employee in the hierarchy, used for indentation
+ * @returns {JSX.Element} - Node of the org chart
+ */
+function OrgChartNode({ employee, level }: OrgChartNodeProps) {
+  const navigate = useNavigate();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  return (
+    <>
+      <ListItem
+        disablePadding
+        sx={{ pl: level * 3 }}
+        secondaryAction={
+          employee.reportCount > 0 && (
+            <IconButton
+              edge="end"
+              aria-label={isExpanded ? 'Collapse' : 'Expand'}
+              onClick={() => setIsExpanded((prevValue) => !prevValue)}
+            >
+              {isExpanded ? <ExpandLess /> : <ExpandMore />}
+            </IconButton>
+          )
+        }
+      >
+        <ListItemButton onClick={() => navigate(`/employees/${employee.id}`)}>
+          <ListItemText
+            primary={`${employee.firstName} ${employee.lastName}`}
+            secondary={`${employee.department}${
+              employee.reportCount > 0
+                ? ` - ${employee.reportCount} direct report(s)`
+                : ''
+            }`}
+          />
+        </ListItemButton>
+      </ListItem>
+      {employee.reportCount > 0 && (
+        <Collapse in={isExpanded} timeout="auto" unmountOnExit>
+          <OrgChartSubtree managerId={employee.id} level={level + 1} />
+        </Collapse>
+      )}
+    </>
+  );
+}
+
+/**
+ * Org chart of the current employees: every employee with the employees reporting to them.
+ * Subtrees are collapsed by default and loaded from the server when expanded for the first time.
+ * Libraries:
+ *  - 'Material UI' for design
+ * @component
+ * @returns {JSX.Element} - Org chart tree
+ */
+function OrgChart() {
+  return <OrgChartSubtree managerId={null} level={0} />;
+}
+
+export default OrgChart;
@@ -0,0 +1,49 @@
+import { Link, Navigate, useLocation } from 'react-router-dom';
+
+import type { Permission } from '@types';
+import { useSession } from '@services';
+import { hasPermission, ROLE_LABELS } from '@utils';
+
+type RequireAuthProps = {
+  permission?: Permission;
+  children: JSX.Element;
+};
+
+/**
+ * Route guard: the visitors who are not signed in are redirected to the login page, which brings them back once signed in.
+ * The pages requiring a permission are denied to the users whose role does not allow it.
+ * @component
+ * @param {Permission} [permission] - what the user must be allowed to do to see the page, only being signed in by default
+ * @param {JSX.Element} children - the guarded page
+ * @returns {JSX.Element} - the guarded page, a redirection to the login page, or an access denied message
+ */
+function RequireAuth({ permission, children }: RequireAuthProps) {
+  const session = useSession();
+  const location = useLocation();
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+  if (permission && !hasPermission(session.user, permission)) {
+    return (
+      <>
+        <div className="title">
+          <h1>HRnet</h1>
+        </div>
+        <div className="container">
+          <h2>Access denied</h2>
+          <p>{`The ${
+            ROLE_LABELS[session.user.role]
+          } role does not give access to this page.`}</p>
+          <Link to="/">GO HOME</Link>
+        </div>
+      </>
+    );
+  }
+  return children;
+}
+RequireAuth.defaultProps = {
+  permission: undefined,
+};
+
+export default RequireAuth;
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Button } from '@mui/material';
+import { Modal } from 'react-modal-simple-customizable';
+
+import { useResetDemoData } from '@services';
+import computeErrorFromQuery from '@utils';
+
+import styles from './Modal.module.css';
+
+/**
+ * Button resetting the demo data of the mock server, after a confirmation.
+ * The changes made to the employees and the departments are saved by the mock server until they are reset.
+ * Libraries:
+ *  - 'Material UI' for design
+ *  - 'react-modal-simple-customizable' for the confirmation and the server response
+ * @component
+ * @returns {JSX.Element} - Reset demo data button
+ */
+function ResetDemoData() {
+  const [showModalConfirm, setShowModalConfirm] = useState(false);
+  const [showModalResult, setShowModalResult] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const resetDemoData = useResetDemoData(
+    () => {
+      setError(undefined);
+      setShowModalResult(true);
+    },
+    (err) => {
+      setError(computeErrorFromQuery(err));
+      setShowModalResult(true);
+    }
+  );
+
+  const onConfirmHandler = () => {
+    setShowModalConfirm(false);
+    resetDemoData.mutate();
+  };
+
+  return (
+    <>
+      <Button
+        variant="outlined"
+        type="button"
+        disabled={resetDemoData.isLoading}
+        onClick={() => setShowModalConfirm(true)}
+      >
+        Reset demo data
+      </Button>
+      <Modal
+        show={showModalConfirm}
+        onClose={() => setShowModalConfirm(false)}
+        className={styles.modal}
+        overlayClassName={styles.overlay}
+      >
+        <div className={styles.modalBody}>
+          <h2>Are you sure?</h2>
+          <h3>
+            Pressing &apos;Yes&apos; will replace the employees and the
+            departments with the initial demo data.
+          </h3>
+        </div>
+        <div className={styles.modalFooter}>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={onConfirmHandler}
+          >
+            YES
+          </Button>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={() => setShowModalConfirm(false)}
+          >
+            CANCEL
+          </Button>
+        </div>
+      </Modal>
+      <Modal
+        show={showModalResult}
+        onClose={() => setShowModalResult(false)}
+        className={styles.modal}
+        overlayClassName={styles.overlay}
+      >
+        <div className={styles.modalBody}>
+          {error ? (
+            <>
+              <p className={styles.firstLine}>Error!</p>
+              <p className={styles.lastLine}>{error}</p>
+            </>
+          ) : (
+            <p>Demo data reset!</p>
+          )}
+        </div>
+        <div className={styles.modalFooter}>
+          <Button
+            fullWidth
+            variant="contained"
+            size="large"
+            type="button"
+            onClick={() => setShowModalResult(false)}
+          >
+            OK
+          </Button>
+        </div>
+      </Modal>
+    </>
+  );
+}
+
+export default ResetDemoData;
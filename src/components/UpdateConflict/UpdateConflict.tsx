@@ -0,0 +1,145 @@
+import {
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+import { Modal } from 'react-modal-simple-customizable';
+
+import type { Employee, EmployeeConflict, EmployeeField } from '@types';
+import {
+  computeEmployeeChanges,
+  EMPLOYEE_FIELD_LABELS,
+  mergeEmployeeEdits,
+} from '@utils';
+
+import styles from './Modal.module.css';
+
+type UpdateConflictProps = {
+  conflict: EmployeeConflict | null;
+  onOverwrite: (employee: Employee) => void;
+  onKeepCurrent: () => void;
+};
+
+/**
+ * Format a value of an employee field for display
+ * @param {unknown} value - the value of the field
+ * @returns {string} - the value, the dates in the locale of the browser, or 'N/A'
+ */
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return 'N/A';
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+};
+
+/**
+ * Modal resolving an update refused because someone else changed the employee in the meantime:
+ * the fields changed by the user or on the server are listed with their current value next to the user's edit.
+ * The user either overwrites the current values with their edits, or keeps the current values.
+ * Libraries:
+ *  - 'Material UI' for design
+ *  - 'react-modal-simple-customizable' for the modal
+ * @component
+ * @param {EmployeeConflict | null} conflict - the refused update, null to hide the modal
+ * @param {(employee: Employee) => void} onOverwrite - called with the current employee and the user's edits
+ * @param {() => void} onKeepCurrent - called when the user drops their edits
+ * @returns {JSX.Element} - Update conflict modal
+ */
+function UpdateConflict({
+  conflict,
+  onOverwrite,
+  onKeepCurrent,
+}: UpdateConflictProps) {
+  const editedFields = conflict
+    ? computeEmployeeChanges(conflict.original, conflict.edited).map(
+        ({ field }) => field
+      )
+    : [];
+  const changedFields = conflict
+    ? computeEmployeeChanges(conflict.original, conflict.current).map(
+        ({ field }) => field
+      )
+    : [];
+  const fields = (Object.keys(EMPLOYEE_FIELD_LABELS) as EmployeeField[]).filter(
+    (field) => editedFields.includes(field) || changedFields.includes(field)
+  );
+
+  return (
+    <Modal
+      show={!!conflict}
+      onClose={onKeepCurrent}
+      className={styles.modal}
+      overlayClassName={styles.overlay}
+    >
+      <div className={styles.modalBody}>
+        <h2>Someone else changed this employee</h2>
+        <h3>Your edits were not saved:</h3>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Field</TableCell>
+              <TableCell>Current value</TableCell>
+              <TableCell>Your edit</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {conflict &&
+              fields.map((field) => (
+                <TableRow
+                  key={field}
+                  // Both the user and someone else changed the field
+                  className={
+                    editedFields.includes(field) &&
+                    changedFields.includes(field)
+                      ? styles.conflictingField
+                      : undefined
+                  }
+                >
+                  <TableCell>{EMPLOYEE_FIELD_LABELS[field]}</TableCell>
+                  <TableCell>{formatValue(conflict.current[field])}</TableCell>
+                  <TableCell>
+                    {editedFields.includes(field)
+                      ? formatValue(conflict.edited[field])
+                      : 'Not edited'}
+                  </TableCell>
+                </TableRow>
+              ))}
+          </TableBody>
+        </Table>
+      </div>
+      <div className={styles.modalFooter}>
+        <Button
+          fullWidth
+          variant="contained"
+          size="large"
+          type="button"
+          onClick={() =>
+            conflict &&
+            onOverwrite(
+              mergeEmployeeEdits(
+                conflict.current,
+                conflict.original,
+                conflict.edited
+              )
+            )
+          }
+        >
+          OVERWRITE WITH MY EDITS
+        </Button>
+        <Button
+          fullWidth
+          variant="contained"
+          size="large"
+          type="button"
+          onClick={onKeepCurrent}
+        >
+          KEEP THE CURRENT VALUES
+        </Button>
+      </div>
+    </Modal>
+  );
+}
+
+export default UpdateConflict;
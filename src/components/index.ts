@@ -1,4 +1,25 @@
 import CreateEmployeeForm from './CreateEmployeeForm/CreateEmployeeForm';
+import CurrentUser from './CurrentUser/CurrentUser';
+import DepartmentsCatalogue from './DepartmentsCatalogue/DepartmentsCatalogue';
+import EmployeeHistory from './EmployeeHistory/EmployeeHistory';
+import EmployeeProfile from './EmployeeProfile/EmployeeProfile';
 import EmployeesTable from './EmployeesTable/EmployeesTable';
+import ImportEmployees from './ImportEmployees/ImportEmployees';
+import LoginForm from './LoginForm/LoginForm';
+import OrgChart from './OrgChart/OrgChart';
+import RequireAuth from './RequireAuth/RequireAuth';
+import ResetDemoData from './ResetDemoData/ResetDemoData';
 
-export { CreateEmployeeForm, EmployeesTable };
+export {
+  CreateEmployeeForm,
+  CurrentUser,
+  DepartmentsCatalogue,
+  EmployeeHistory,
+  EmployeeProfile,
+  EmployeesTable,
+  ImportEmployees,
+  LoginForm,
+  OrgChart,
+  RequireAuth,
+  ResetDemoData,
+};
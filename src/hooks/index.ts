@@ -1,4 +1,13 @@
+import useMaskedFields from './useMaskedFields';
+import usePermission from './usePermission';
 import useReducerCRUD from './useReducerCRUD';
 import useQueryOptions from './useQueryOptions';
+import useTableSearchParams from './useTableSearchParams';
 
-export { useQueryOptions, useReducerCRUD };
+export {
+  useMaskedFields,
+  usePermission,
+  useQueryOptions,
+  useReducerCRUD,
+  useTableSearchParams,
+};
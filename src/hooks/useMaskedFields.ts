@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+
+import { useSession } from '@services';
+import { getMaskedFields } from '@utils';
+
+/**
+ * Custom hook listing the personal data the signed in user is not allowed to see, masked by the server.
+ * @returns {PersonalDataField[]} - the masked fields, the same array as long as the role of the user does not change
+ * @example
+ * const maskedFields = useMaskedFields();
+ */
+const useMaskedFields = () => {
+  const role = useSession()?.user.role;
+  return useMemo(() => getMaskedFields(role ? { role } : null), [role]);
+};
+
+export default useMaskedFields;
@@ -0,0 +1,16 @@
+import { Permission } from '@types';
+import { useSession } from '@services';
+import { hasPermission } from '@utils';
+
+/**
+ * Custom hook telling if the signed in user is allowed to do something, to hide the actions they are not allowed to do.
+ * The server enforces the same rules.
+ * @param {Permission} permission - what the user wants to do
+ * @returns {boolean} - true if the role of the signed in user allows it, false if nobody is signed in
+ * @example
+ * const canEdit = usePermission('edit');
+ */
+const usePermission = (permission: Permission) =>
+  hasPermission(useSession()?.user, permission);
+
+export default usePermission;
@@ -6,27 +6,46 @@ import { QueryOptionsInterface } from '@types';
 /**
  * Custom hook for managing the query options and callbacks for filter and sort changes
  * @param {Object} initialState - the initial state of the query options
- * @returns {Object} an object containing the query options, onFilterChange and onSortChange callbacks
+ * @returns {Object} an object containing the query options, onFilterChange, onQuickFilterChange, onSortChange and onArchivedChange callbacks
  * @property {Object} queryOptions - the current state of the query options
  * @property {Function} onFilterChange - callback function for handling filter changes
  * @property {Function} onSortChange - callback function for handling sort changes
+ * @property {Function} onQuickFilterChange - callback function for restoring the quick filter values, keeping the column filters
+ * @property {Function} onArchivedChange - callback function for switching between current and former employees
  */
 const useQueryOptions = (initialState: QueryOptionsInterface) => {
   const [queryOptions, setQueryOptions] = useState(initialState);
 
   /**
-   * Callback function for handling filter changes
+   * Callback function for handling filter changes (quick filter and column filters)
    * @param {Object} filterModel - the new filter model
    */
   const onFilterChange = useCallback((filterModel: GridFilterModel) => {
-    if (filterModel?.quickFilterValues) {
+    if (filterModel) {
       setQueryOptions((prevValue) => ({
         ...prevValue,
-        filterModel: { ...filterModel },
+        filterModel: {
+          ...filterModel,
+          quickFilterValues: filterModel.quickFilterValues ?? [],
+        },
       }));
     }
   }, []);
 
+  /**
+   * Callback function for restoring the quick filter values, the column filters being kept
+   * @param {string[]} quickFilterValues - the new quick filter values
+   */
+  const onQuickFilterChange = useCallback((quickFilterValues: string[]) => {
+    setQueryOptions((prevValue) => ({
+      ...prevValue,
+      filterModel: {
+        ...prevValue.filterModel,
+        quickFilterValues,
+      },
+    }));
+  }, []);
+
   /**
    * Callback function for handling sort changes
    * @param {Object} sortModel - the new sort model
@@ -35,12 +54,29 @@ const useQueryOptions = (initialState: QueryOptionsInterface) => {
     if (sortModel?.length) {
       setQueryOptions((prevValue) => ({
         ...prevValue,
-        sortModel: { ...sortModel },
+        sortModel: [...sortModel],
       }));
     }
   }, []);
 
-  return { queryOptions, onFilterChange, onSortChange };
+  /**
+   * Callback function for switching between current and former (archived) employees
+   * @param {boolean} archived - true to list the former employees
+   */
+  const onArchivedChange = useCallback((archived: boolean) => {
+    setQueryOptions((prevValue) => ({
+      ...prevValue,
+      archived,
+    }));
+  }, []);
+
+  return {
+    queryOptions,
+    onFilterChange,
+    onQuickFilterChange,
+    onSortChange,
+    onArchivedChange,
+  };
 };
 
 export default useQueryOptions;
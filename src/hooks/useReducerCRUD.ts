@@ -12,24 +12,30 @@ import { ActionCRUD, StateCRUD } from '@types';
  * @property {boolean} showModalCreate - Determines whether the create modal should be displayed
  * @property {boolean} showModalUpdate - Determines whether the update modal should be displayed
  * @property {boolean} showModalDelete - Determines whether the delete modal should be displayed
+ * @property {boolean} showModalPurge - Determines whether the purge modal should be displayed
+ * @property {boolean} showModalBatch - Determines whether the batch action modal should be displayed
  * @property {boolean} showModalResult - Determines whether the result modal should be displayed
  * @property {Object} result - The result of a CRUD action, containing type and error properties.
  * @property {Object} rowUpdateData - The data to be updated, including old and new rows, and resolve and  reject functions.
- * @property {string} rowDeleteId - The id of the row to be deleted.
+ * @property {string} rowDeleteId - The id of the row to be deleted or purged.
+ * @property {Object} batchRequest - The action to be applied to several employees at once.
  *
  * @typedef {Object} ActionCRUD
- * @property {string} type - The type of CRUD action to be performed, can be one of: 'INIT', 'CANCEL', 'CONFIRM_CREATE', 'CONFIRM_UPDATE', 'CONFIRM_DELETE', 'SHOW_RESULT'.
- * @property {Object} payload - Additional data to be passed along with the action, such as rowUpdateData or * rowDeleteId.
+ * @property {string} type - The type of CRUD action to be performed, can be one of: 'INIT', 'CANCEL', 'CONFIRM_CREATE', 'CONFIRM_UPDATE', 'CONFIRM_DELETE', 'CONFIRM_PURGE', 'CONFIRM_BATCH', 'SHOW_RESULT'.
+ * @property {Object} payload - Additional data to be passed along with the action, such as rowUpdateData, rowDeleteId or batchRequest.
  */
 const useReducerCRUD = () => {
   const initialState: StateCRUD = {
     showModalCreate: false,
     showModalUpdate: false,
     showModalDelete: false,
+    showModalPurge: false,
+    showModalBatch: false,
     showModalResult: false,
     result: null,
     rowUpdateData: null,
     rowDeleteId: null,
+    batchRequest: null,
   };
 
   const reducerCRUD = (state: StateCRUD, action: ActionCRUD) => {
@@ -40,10 +46,13 @@ const useReducerCRUD = () => {
           showModalCreate: false,
           showModalUpdate: false,
           showModalDelete: false,
+          showModalPurge: false,
+          showModalBatch: false,
           showModalResult: false,
           result: null,
           rowUpdateData: null,
           rowDeleteId: null,
+          batchRequest: null,
         };
       case 'CANCEL':
         return {
@@ -51,10 +60,13 @@ const useReducerCRUD = () => {
           showModalCreate: false,
           showModalUpdate: false,
           showModalDelete: false,
+          showModalPurge: false,
+          showModalBatch: false,
           showModalResult: false,
           result: null,
           rowUpdateData: null,
           rowDeleteId: null,
+          batchRequest: null,
         };
       case 'CONFIRM_CREATE':
         return {
@@ -62,10 +74,13 @@ const useReducerCRUD = () => {
           showModalCreate: true,
           showModalUpdate: false,
           showModalDelete: false,
+          showModalPurge: false,
+          showModalBatch: false,
           showModalResult: false,
           result: null,
           rowUpdateData: null,
           rowDeleteId: null,
+          batchRequest: null,
         };
       case 'CONFIRM_UPDATE':
         return {
@@ -73,6 +88,8 @@ const useReducerCRUD = () => {
           showModalCreate: false,
           showModalUpdate: true,
           showModalDelete: false,
+          showModalPurge: false,
+          showModalBatch: false,
           showModalResult: false,
           result: null,
           rowUpdateData: {
@@ -82,6 +99,7 @@ const useReducerCRUD = () => {
             reject: action.payload?.rowUpdateData?.reject,
           },
           rowDeleteId: null,
+          batchRequest: null,
         };
       case 'CONFIRM_DELETE':
         return {
@@ -89,10 +107,41 @@ const useReducerCRUD = () => {
           showModalCreate: false,
           showModalUpdate: false,
           showModalDelete: true,
+          showModalPurge: false,
+          showModalBatch: false,
           showModalResult: false,
           result: null,
           rowUpdateData: null,
           rowDeleteId: action.payload?.rowDeleteId,
+          batchRequest: null,
+        };
+      case 'CONFIRM_PURGE':
+        return {
+          ...state,
+          showModalCreate: false,
+          showModalUpdate: false,
+          showModalDelete: false,
+          showModalPurge: true,
+          showModalBatch: false,
+          showModalResult: false,
+          result: null,
+          rowUpdateData: null,
+          rowDeleteId: action.payload?.rowDeleteId,
+          batchRequest: null,
+        };
+      case 'CONFIRM_BATCH':
+        return {
+          ...state,
+          showModalCreate: false,
+          showModalUpdate: false,
+          showModalDelete: false,
+          showModalPurge: false,
+          showModalBatch: true,
+          showModalResult: false,
+          result: null,
+          rowUpdateData: null,
+          rowDeleteId: null,
+          batchRequest: action.payload?.batchRequest,
         };
       case 'SHOW_RESULT':
         return {
@@ -100,6 +149,8 @@ const useReducerCRUD = () => {
           showModalCreate: false,
           showModalUpdate: false,
           showModalDelete: false,
+          showModalPurge: false,
+          showModalBatch: false,
           showModalResult: true,
           result: {
             type: action.payload?.result?.type,
@@ -107,6 +158,7 @@ const useReducerCRUD = () => {
           },
           rowUpdateData: null,
           rowDeleteId: null,
+          batchRequest: null,
         };
       default:
         return state;
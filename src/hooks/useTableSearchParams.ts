@@ -0,0 +1,130 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { GridSortModel } from '@mui/x-data-grid';
+
+import { TableMode, TableState } from '@types';
+
+const SORT_DIRECTIONS = ['asc', 'desc'];
+const TABLE_MODES: TableMode[] = ['paginated', 'scroll'];
+
+/**
+ * Read the table state from the search params, missing or invalid values falling back to the default state
+ * @param {URLSearchParams} searchParams - the search params of the URL
+ * @param {TableState} defaultState - the state of the table when the URL has no search params
+ * @param {number[]} pageSizeOptions - the page sizes of the table, any other page size falling back to the default one
+ * @returns {TableState} - the table state
+ */
+const parseTableSearchParams = (
+  searchParams: URLSearchParams,
+  defaultState: TableState,
+  pageSizeOptions: number[]
+): TableState => {
+  // The page is 1-based in the URL so that shared links are readable
+  const page = Number(searchParams.get('page'));
+  const pageSize = Number(searchParams.get('pageSize'));
+
+  const sortModel: GridSortModel = searchParams
+    .getAll('sort')
+    .map((param) => param.split(':'))
+    .filter(([field, sort]) => field && sort && SORT_DIRECTIONS.includes(sort))
+    .map(([field, sort]) => ({ field, sort: sort as 'asc' | 'desc' }));
+
+  const search = searchParams.get('search');
+  const mode = TABLE_MODES.find((value) => value === searchParams.get('mode'));
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page - 1 : defaultState.page,
+    pageSize: pageSizeOptions.includes(pageSize)
+      ? pageSize
+      : defaultState.pageSize,
+    sortModel: sortModel.length ? sortModel : defaultState.sortModel,
+    quickFilterValues:
+      search !== null
+        ? search.split(' ').filter((value) => value !== '')
+        : defaultState.quickFilterValues,
+    mode: mode ?? defaultState.mode,
+  };
+};
+
+/**
+ * Write the table state into search params, the values equal to the default state being omitted
+ * @param {TableState} tableState - the table state
+ * @param {TableState} defaultState - the state of the table when the URL has no search params
+ * @returns {URLSearchParams} - the search params of the URL
+ */
+const toTableSearchParams = (
+  tableState: TableState,
+  defaultState: TableState
+): URLSearchParams => {
+  const searchParams = new URLSearchParams();
+
+  if (tableState.page !== defaultState.page)
+    searchParams.set('page', String(tableState.page + 1));
+  if (tableState.pageSize !== defaultState.pageSize)
+    searchParams.set('pageSize', String(tableState.pageSize));
+
+  const sort = tableState.sortModel.map(
+    ({ field, sort: direction }) => `${field}:${direction}`
+  );
+  const defaultSort = defaultState.sortModel.map(
+    ({ field, sort: direction }) => `${field}:${direction}`
+  );
+  if (sort.join() !== defaultSort.join())
+    sort.forEach((param) => searchParams.append('sort', param));
+
+  const search = tableState.quickFilterValues.join(' ');
+  if (search !== defaultState.quickFilterValues.join(' '))
+    searchParams.set('search', search);
+
+  if (tableState.mode !== defaultState.mode)
+    searchParams.set('mode', tableState.mode);
+
+  return searchParams;
+};
+
+/**
+ * Custom hook keeping the state of a table (page, page size, sorting, quick filter and mode) in the search params of the URL,
+ * so that a refresh or a shared link restores the table and the browser back/forward buttons navigate between its states.
+ * @param {TableState} defaultState - the state of the table when the URL has no search params, it must be a constant
+ * @param {number[]} pageSizeOptions - the page sizes the table offers, it must be a constant
+ * @returns {Array} an array containing the table state read from the URL and a function writing a new table state into the URL
+ * @example const [tableState, setTableState] = useTableSearchParams(DEFAULT_TABLE_STATE, PAGE_SIZE_OPTIONS);
+ */
+const useTableSearchParams = (
+  defaultState: TableState,
+  pageSizeOptions: number[]
+): [TableState, (newTableState: TableState) => void] => {
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const tableState = useMemo(
+    () => parseTableSearchParams(searchParams, defaultState, pageSizeOptions),
+    [searchParams, defaultState, pageSizeOptions]
+  );
+
+  // The setter only depends on refs so that it is stable and never writes a stale state into the URL
+  const tableStateRef = useRef(tableState);
+  tableStateRef.current = tableState;
+  const setSearchParamsRef = useRef(setSearchParams);
+  setSearchParamsRef.current = setSearchParams;
+
+  /**
+   * Write a new table state into the URL, pushing a new history entry only if the state changed
+   * @param {TableState} newTableState - the new table state
+   */
+  const setTableState = useCallback(
+    (newTableState: TableState) => {
+      const newSearchParams = toTableSearchParams(newTableState, defaultState);
+      if (
+        newSearchParams.toString() !==
+        toTableSearchParams(tableStateRef.current, defaultState).toString()
+      ) {
+        setSearchParamsRef.current(newSearchParams);
+      }
+    },
+    [defaultState]
+  );
+
+  return [tableState, setTableState];
+};
+
+export default useTableSearchParams;
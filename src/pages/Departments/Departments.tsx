@@ -0,0 +1,25 @@
+import { Link } from 'react-router-dom';
+
+import { DepartmentsCatalogue } from '@components';
+
+/**
+ * Display the page managing the catalogue of departments
+ * @component
+ * @return {React.ReactElement} A JSX representation of the departments page
+ */
+function Departments() {
+  return (
+    <>
+      <div className="title">
+        <h1>HRnet</h1>
+      </div>
+      <div className="container">
+        <Link to="/">Home</Link>
+        <h2>Departments</h2>
+        <DepartmentsCatalogue />
+      </div>
+    </>
+  );
+}
+
+export default Departments;
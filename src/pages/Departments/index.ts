@@ -0,0 +1,3 @@
+import Departments from './Departments';
+
+export default Departments;
@@ -0,0 +1,45 @@
+import { Link, useParams } from 'react-router-dom';
+import { Box, LinearProgress } from '@mui/material';
+
+import { EmployeeHistory, EmployeeProfile } from '@components';
+import { useEmployee } from '@services';
+import computeErrorFromQuery from '@utils';
+
+/**
+ * Display the page showing the profile of one employee and its change history
+ * @component
+ * @return {React.ReactElement} A JSX representation of the employee detail page
+ */
+function EmployeeDetail() {
+  const { id } = useParams();
+  const { data: employee, isLoading, isError, error } = useEmployee(id);
+
+  return (
+    <>
+      <div className="title">
+        <h1>HRnet</h1>
+      </div>
+      <div className="container">
+        <Link to="/employee-list">View Current Employees</Link>
+        <h2>
+          {employee ? `${employee.firstName} ${employee.lastName}` : 'Employee'}
+        </h2>
+        <Box sx={{ width: '90%', maxWidth: 600 }}>
+          {isLoading && <LinearProgress />}
+          {isError && <p>{computeErrorFromQuery(error)}</p>}
+          {employee && <EmployeeProfile employee={employee} />}
+        </Box>
+        {id && (
+          <>
+            <h3>History</h3>
+            <Box sx={{ width: '90%', maxWidth: 1280 }}>
+              <EmployeeHistory id={id} />
+            </Box>
+          </>
+        )}
+      </div>
+    </>
+  );
+}
+
+export default EmployeeDetail;
@@ -0,0 +1,3 @@
+import EmployeeDetail from './EmployeeDetail';
+
+export default EmployeeDetail;
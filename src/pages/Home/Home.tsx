@@ -1,21 +1,24 @@
 import { Link } from 'react-router-dom';
 
-import { CreateEmployeeForm } from '@components';
+import { CreateEmployeeForm, ResetDemoData } from '@components';
 import { useEmployees } from '@services';
-import { useQueryOptions } from '@hooks';
+import { usePermission, useQueryOptions } from '@hooks';
 
 /**
- * Display Home page with create employee form
+ * Display Home page with create employee form, the links and forms being shown to the roles allowed to use them
  * @returns {React.ReactElement} home page
  * @component
  */
 function Home() {
   // * Prefetch the first employees to anticipate employee-list page
   const { queryOptions } = useQueryOptions({
-    sortModel: [{ field: 'firstname', sort: 'asc' }],
+    sortModel: [{ field: 'firstName', sort: 'asc' }],
     filterModel: { items: [], quickFilterValues: [] },
+    archived: false,
   });
   useEmployees(0, 10, true, queryOptions);
+  const canEdit = usePermission('edit');
+  const canResetDemoData = usePermission('resetDemoData');
 
   return (
     <>
@@ -24,8 +27,18 @@ function Home() {
       </div>
       <div className="container">
         <Link to="employee-list">View Current Employees</Link>
-        <h2>Create Employee</h2>
-        <CreateEmployeeForm />
+        {canEdit && (
+          <Link to="import-employees">Import Employees from CSV</Link>
+        )}
+        <Link to="departments">Manage Departments</Link>
+        <Link to="org-chart">View Org Chart</Link>
+        {canResetDemoData && <ResetDemoData />}
+        {canEdit && (
+          <>
+            <h2>Create Employee</h2>
+            <CreateEmployeeForm />
+          </>
+        )}
       </div>
     </>
   );
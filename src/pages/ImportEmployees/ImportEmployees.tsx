@@ -0,0 +1,25 @@
+import { Link } from 'react-router-dom';
+
+import { ImportEmployees as ImportEmployeesForm } from '@components';
+
+/**
+ * Display the page importing employees from a CSV file
+ * @component
+ * @return {React.ReactElement} A JSX representation of the import employees page
+ */
+function ImportEmployees() {
+  return (
+    <>
+      <div className="title">
+        <h1>HRnet</h1>
+      </div>
+      <div className="container">
+        <Link to="/">Home</Link>
+        <h2>Import Employees</h2>
+        <ImportEmployeesForm />
+      </div>
+    </>
+  );
+}
+
+export default ImportEmployees;
@@ -0,0 +1,3 @@
+import ImportEmployees from './ImportEmployees';
+
+export default ImportEmployees;
@@ -0,0 +1,42 @@
+import { Location, useLocation, useNavigate } from 'react-router-dom';
+import { Box } from '@mui/material';
+
+import { LoginForm } from '@components';
+
+/**
+ * Display the login page, bringing the user back to the page they wanted to see once signed in
+ * @component
+ * @return {React.ReactElement} A JSX representation of the login page
+ */
+function Login() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  // Set by the route guard which redirected the user here
+  const from = (location.state as { from?: Location } | null)?.from;
+
+  return (
+    <>
+      <div className="title">
+        <h1>HRnet</h1>
+      </div>
+      <div className="container">
+        <h2>Sign in</h2>
+        <Box sx={{ width: '90%', maxWidth: 400 }}>
+          <LoginForm
+            onLogin={() =>
+              navigate(from ? `${from.pathname}${from.search}` : '/', {
+                replace: true,
+              })
+            }
+          />
+        </Box>
+        <p>
+          Demo accounts: viewer, editor and admin, the password being the
+          username
+        </p>
+      </div>
+    </>
+  );
+}
+
+export default Login;
@@ -0,0 +1,25 @@
+import { Link } from 'react-router-dom';
+
+import { OrgChart as OrgChartTree } from '@components';
+
+/**
+ * Display the org chart page
+ * @component
+ * @return {React.ReactElement} A JSX representation of the org chart page
+ */
+function OrgChart() {
+  return (
+    <>
+      <div className="title">
+        <h1>HRnet</h1>
+      </div>
+      <div className="container">
+        <Link to="/">Home</Link>
+        <h2>Org Chart</h2>
+        <OrgChartTree />
+      </div>
+    </>
+  );
+}
+
+export default OrgChart;
@@ -0,0 +1,3 @@
+import OrgChart from './OrgChart';
+
+export default OrgChart;
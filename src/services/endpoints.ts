@@ -1,5 +1,9 @@
 const ENDPOINTS = {
+  auth: '/auth',
   employees: '/employees',
+  departments: '/departments',
+  orgChart: '/org-chart',
+  demo: '/demo',
 };
 
 export default ENDPOINTS;
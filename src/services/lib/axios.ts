@@ -1,14 +1,79 @@
-import axios from 'axios';
+import axios, { AxiosRequestConfig } from 'axios';
+
+import type { RefreshSessionRequest, Session } from '@types';
+import ENDPOINTS from '../endpoints';
+import { API_BASE_URL } from './backend';
+import { getSession, setSession } from './session';
 
 /**
- * Create an axios client with a specific configuration
+ * Create an axios client with a specific configuration, targeting the backend chosen by the environment
  * @type {AxiosInstance}
  */
 const client = axios.create({
-  baseURL: import.meta.env.VITE_API_URL as string,
+  baseURL: API_BASE_URL,
   headers: {
     'Content-Type': 'application/json',
   },
 });
 
+// Every request is authenticated by the access token of the session
+client.interceptors.request.use((config) => {
+  const session = getSession();
+  if (session && config.headers) {
+    // eslint-disable-next-line no-param-reassign
+    config.headers.Authorization = `Bearer ${session.accessToken}`;
+  }
+  return config;
+});
+
+// A request sent again after the refresh of the session, which is not refreshed twice
+type RetriedRequestConfig = AxiosRequestConfig & { retried?: boolean };
+
+// The requests failing while the session is refreshed wait for the same refresh
+let pendingRefresh: Promise<Session | null> | null = null;
+
+/**
+ * Exchange the refresh token of the session for a new session, only once for all the concurrent requests
+ * @param refreshToken - the refresh token of the expired session
+ * @returns The new session, null if the refresh token is no longer valid
+ */
+const refreshSession = (refreshToken: string) => {
+  if (!pendingRefresh) {
+    const body: RefreshSessionRequest = { refreshToken };
+    pendingRefresh = client
+      .post<Session>(`${ENDPOINTS.auth}/refresh`, body)
+      .then(({ data }) => data)
+      .catch(() => null)
+      .finally(() => {
+        pendingRefresh = null;
+      });
+  }
+  return pendingRefresh;
+};
+
+// A 401 response means the access token has expired: the session is refreshed and the request is sent again.
+// If the session can't be refreshed, the user is signed out and the route guards redirect to the login page.
+client.interceptors.response.use(undefined, async (err) => {
+  const config: RetriedRequestConfig | undefined = err?.config;
+  const session = getSession();
+  if (
+    !axios.isAxiosError(err) ||
+    err.response?.status !== 401 ||
+    !config ||
+    config.retried ||
+    // The authentication routes answer 401 for invalid credentials or refresh tokens
+    config.url?.startsWith(ENDPOINTS.auth) ||
+    !session
+  ) {
+    return Promise.reject(err);
+  }
+
+  const refreshedSession = await refreshSession(session.refreshToken);
+  // Another request may have signed the user out or in meanwhile
+  if (getSession() === session) setSession(refreshedSession);
+  if (!refreshedSession) return Promise.reject(err);
+  const retriedConfig: RetriedRequestConfig = { ...config, retried: true };
+  return client(retriedConfig);
+});
+
 export default client;
@@ -0,0 +1,29 @@
+/**
+ * Backend the services talk to, chosen with VITE_API_BACKEND:
+ *  - 'mirage' (default): the MockServer, intercepting the requests in the browser
+ *  - 'rest': a real REST backend, e.g. the reference server started with `pnpm server`
+ */
+export type ApiBackend = 'mirage' | 'rest';
+
+export const API_BACKEND: ApiBackend =
+  import.meta.env.VITE_API_BACKEND === 'rest' ? 'rest' : 'mirage';
+
+/**
+ * Base URL of the API: the namespace of the MockServer, or the URL of the REST backend
+ */
+export const API_BASE_URL =
+  API_BACKEND === 'rest'
+    ? import.meta.env.VITE_REST_API_URL || 'http://localhost:3001/api'
+    : import.meta.env.VITE_API_URL;
+
+/**
+ * Start the MockServer if it is the backend, nothing has to be started for a REST backend
+ * @async
+ * @returns A promise resolved once the backend can handle the requests
+ */
+export const startApiBackend = async () => {
+  if (API_BACKEND === 'mirage') {
+    const { default: MockServer } = await import('../../MockServer');
+    MockServer();
+  }
+};
@@ -0,0 +1,158 @@
+import { isWireDate, WIRE_DATE_FORMAT } from '@utils';
+import openapi from '../../openapi/openapi.json';
+import type { components } from '../../types/openapi';
+
+type SchemaName = keyof components['schemas'];
+
+// The subset of the OpenAPI schema objects used by src/openapi/openapi.json
+interface SchemaObject {
+  $ref?: string;
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  format?: string;
+  pattern?: string;
+  nullable?: boolean;
+  enum?: unknown[];
+  required?: string[];
+  properties?: Record<string, SchemaObject>;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+}
+
+const SCHEMAS = openapi.components.schemas as Record<string, SchemaObject>;
+// Only the first errors are reported, a drift of the Employee schema being repeated on every row
+const MAX_REPORTED_ERRORS = 3;
+
+/**
+ * Resolve a reference to a schema of the document, e.g. #/components/schemas/Employee
+ * @param schema - the schema or the reference
+ * @returns The referenced schema, or the schema itself if it is not a reference
+ */
+const resolveSchema = (schema: SchemaObject): SchemaObject =>
+  schema.$ref ? SCHEMAS[schema.$ref.split('/').pop() ?? ''] : schema;
+
+/**
+ * Describe the type of a value for the error messages
+ * @param value - the value received
+ * @returns 'null', 'array' or the typeof of the value
+ */
+const describeValue = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Check a value against a schema of the OpenAPI document
+ * @param value - the value to check
+ * @param schema - the schema it should match
+ * @param path - the path of the value in the response, e.g. employees[0].startDate
+ * @returns The messages of the mismatches, empty if the value matches the schema
+ */
+const validateSchema = (
+  value: unknown,
+  schema: SchemaObject,
+  path: string
+): string[] => {
+  const resolved = resolveSchema(schema);
+  if (value === null) {
+    return resolved.nullable ? [] : [`${path}: expected a value, got null`];
+  }
+  if (resolved.allOf) {
+    return resolved.allOf.flatMap((part) => validateSchema(value, part, path));
+  }
+  if (resolved.oneOf) {
+    return resolved.oneOf.some(
+      (option) => !validateSchema(value, option, path).length
+    )
+      ? []
+      : [`${path}: ${describeValue(value)} matches none of the expected types`];
+  }
+  if (resolved.enum && !resolved.enum.includes(value)) {
+    return [`${path}: unexpected value ${JSON.stringify(value)}`];
+  }
+
+  const mismatch = (expected: string) => [
+    `${path}: expected ${expected}, got ${describeValue(value)}`,
+  ];
+  switch (resolved.type) {
+    case 'string':
+      if (typeof value !== 'string') return mismatch('a string');
+      if (resolved.format === 'date' && !isWireDate(value)) {
+        return [
+          `${path}: expected a day written ${WIRE_DATE_FORMAT}, got ${JSON.stringify(
+            value
+          )}`,
+        ];
+      }
+      if (resolved.format === 'date-time' && Number.isNaN(Date.parse(value))) {
+        return [`${path}: expected a date, got ${JSON.stringify(value)}`];
+      }
+      if (resolved.pattern && !new RegExp(resolved.pattern).test(value)) {
+        return [
+          `${path}: expected a string matching ${
+            resolved.pattern
+          }, got ${JSON.stringify(value)}`,
+        ];
+      }
+      return [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : mismatch('an integer');
+    case 'number':
+      return Number.isFinite(value) ? [] : mismatch('a number');
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : mismatch('a boolean');
+    case 'array':
+      if (!Array.isArray(value)) return mismatch('an array');
+      return value.flatMap((item, index) =>
+        resolved.items
+          ? validateSchema(item, resolved.items, `${path}[${index}]`)
+          : []
+      );
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return mismatch('an object');
+      }
+      const record = value as Record<string, unknown>;
+      const missing = (resolved.required ?? [])
+        .filter((key) => record[key] === undefined)
+        .map((key) => `${path}.${key}: is missing`);
+      const invalid = Object.entries(resolved.properties ?? {}).flatMap(
+        ([key, property]) =>
+          record[key] === undefined
+            ? []
+            : validateSchema(record[key], property, `${path}.${key}`)
+      );
+      return [...missing, ...invalid];
+    }
+    default:
+      return [];
+  }
+};
+
+/**
+ * Check a response of the API against its schema in the OpenAPI contract
+ * @param data - the body of the response
+ * @param schemaName - the name of the schema of the response in src/openapi/openapi.json
+ * @param request - the method and the URL of the request, for the error message
+ * @returns The body of the response, typed after the contract
+ * @throws {Error} - if the response does not match the contract, with the paths of the mismatches
+ */
+const assertResponseMatchesContract = <Name extends SchemaName>(
+  data: unknown,
+  schemaName: Name,
+  request: string
+): components['schemas'][Name] => {
+  const errors = validateSchema(data, SCHEMAS[schemaName], 'response');
+  if (errors.length) {
+    const others = errors.length - MAX_REPORTED_ERRORS;
+    throw new Error(
+      `Unexpected response of ${request}: ${errors
+        .slice(0, MAX_REPORTED_ERRORS)
+        .join('; ')}${others > 0 ? ` (and ${others} more)` : ''}`
+    );
+  }
+  return data as components['schemas'][Name];
+};
+
+export default assertResponseMatchesContract;
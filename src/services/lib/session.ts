@@ -0,0 +1,55 @@
+import type { Session } from '@types';
+
+// Key of the session of the signed in user in the localStorage
+const STORAGE_KEY = 'hrnet-session';
+
+type SessionListener = () => void;
+
+const listeners = new Set<SessionListener>();
+
+/**
+ * Read the session saved by a previous visit
+ * @returns The saved session, null if nobody is signed in or if it can't be read
+ */
+const loadSession = (): Session | null => {
+  try {
+    const json = localStorage.getItem(STORAGE_KEY);
+    return json ? JSON.parse(json) : null;
+  } catch {
+    return null;
+  }
+};
+
+let currentSession = loadSession();
+
+/**
+ * @returns The session of the signed in user, null if nobody is signed in
+ */
+export const getSession = () => currentSession;
+
+/**
+ * Replace the session of the signed in user, and save it for the next visits
+ * @param session - the new session, null to sign out
+ */
+export const setSession = (session: Session | null) => {
+  currentSession = session;
+  try {
+    if (session) localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // The localStorage is disabled: the user will have to sign in on the next visit
+  }
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Listen to the changes of the session, e.g. with useSyncExternalStore
+ * @param listener - called after every change of the session
+ * @returns The function removing the listener
+ */
+export const subscribeSession = (listener: SessionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -1,100 +1,365 @@
-import { useEffect } from 'react';
-import { AxiosResponse } from 'axios';
-import { GridSortDirection } from '@mui/x-data-grid';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useSyncExternalStore } from 'react';
+import axios, { AxiosResponse } from 'axios';
+import { isValid } from 'date-fns';
+import { GridFilterModel, GridSortModel } from '@mui/x-data-grid';
+import {
+  InfiniteData,
+  QueryClient,
+  QueryKey,
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
 
 import type {
+  AuditEvent,
+  BatchEmployeesRequest,
+  BatchEmployeesResponse,
+  BulkCreateEmployeesResponse,
+  CheckDuplicateEmployeesResponse,
+  DepartmentRecord,
+  DuplicateCandidate,
   Employee,
+  EmployeeAttributes,
+  EmployeeConflictResponse,
+  EmployeeDates,
+  EmployeeRecord,
+  EmployeeReport,
+  EmployeesRange,
+  FilterLogic,
+  FilterOperator,
+  GetDepartmentResponse,
+  GetDepartmentsResponse,
+  GetEmployeeHistoryResponse,
+  GetEmployeeReportsResponse,
+  GetEmployeeResponse,
   GetEmployeesResponse,
+  LoginRequest,
   QueryOptionsInterface,
+  Session,
+  WithEmployeeDates,
 } from '@types';
+import {
+  formatWireDate,
+  isFieldMasked,
+  isWireDate,
+  parseWireDate,
+  WIRE_DATE_FORMAT,
+} from '@utils';
 
 import ENDPOINTS from './endpoints';
 import client from './lib/axios';
+import assertResponseMatchesContract from './lib/contract';
+import { getSession, setSession, subscribeSession } from './lib/session';
 
+// The default page of the server, walked by fetchAllEmployees
 const SERVER_PAGE_SIZE = +import.meta.env.VITE_PAGE_LENGTH;
 
+// The number of employees loaded at once by the scroll mode of the table
+const SCROLL_PAGE_SIZE = 50;
+
+/**
+ * Decode an employee received from the server: its days, written yyyy-MM-dd on the wire, become dates
+ * @param employee - the employee as sent by the server
+ * @returns The employee with its start date and date of birth at midnight in the local time zone, a masked date of birth staying null
+ * @throws {Error} - if a day is not written yyyy-MM-dd
+ */
+const decodeEmployee = <
+  T extends Pick<EmployeeRecord, keyof EmployeeDates | 'maskedFields'>
+>(
+  employee: T
+): WithEmployeeDates<T> => {
+  const decodeDay = (field: keyof EmployeeDates) => {
+    const day = employee[field];
+    if (day === null && isFieldMasked(employee.maskedFields, field)) {
+      return null;
+    }
+    if (!isWireDate(day)) {
+      throw new Error(
+        `Unexpected ${field} '${day}' received from the server, expected a day written ${WIRE_DATE_FORMAT}`
+      );
+    }
+    return parseWireDate(day);
+  };
+  return {
+    ...employee,
+    startDate: decodeDay('startDate'),
+    dateOfBirth: decodeDay('dateOfBirth'),
+  } as WithEmployeeDates<T>;
+};
+
+/**
+ * Encode an employee before sending it to the server: its dates become days written yyyy-MM-dd
+ * @param employee - the employee, e.g. from the employee form
+ * @returns The employee as expected by the server
+ */
+const encodeEmployee = <
+  T extends Pick<WithEmployeeDates<EmployeeRecord>, keyof EmployeeDates>
+>(
+  employee: T
+) => {
+  // An invalid date is sent as is, for the server to report it on its field
+  const encodeDay = (date: Date) =>
+    isValid(date) ? formatWireDate(date) : String(date);
+  return {
+    ...employee,
+    startDate: encodeDay(employee.startDate),
+    // A masked date of birth is sent as is, for the server to refuse it
+    dateOfBirth: employee.dateOfBirth && encodeDay(employee.dateOfBirth),
+  };
+};
+
+/**
+ * Operators of the DataGrid filter panel and their equivalent in the employees API
+ */
+const GRID_TO_API_OPERATORS: Record<string, FilterOperator> = {
+  equals: 'is',
+  is: 'is',
+  '=': 'is',
+  not: 'not',
+  '!=': 'not',
+  contains: 'contains',
+  startsWith: 'startsWith',
+  endsWith: 'endsWith',
+  isAnyOf: 'in',
+  between: 'between',
+  after: 'gt',
+  '>': 'gt',
+  onOrAfter: 'gte',
+  '>=': 'gte',
+  before: 'lt',
+  '<': 'lt',
+  onOrBefore: 'lte',
+  '<=': 'lte',
+  isEmpty: 'isEmpty',
+  isNotEmpty: 'isNotEmpty',
+};
+
+/**
+ * Convert the DataGrid filter model into the query params of the employees API
+ * @param filterModel - the DataGrid filter model
+ * @returns The `filter` params (`field:operator:value`) and the `logic` linking them
+ * @example computeFilterParams({ items: [{ columnField: 'state', operatorValue: 'isAnyOf', value: ['CA', 'NY'] }] })
+ * // { filter: ['state:in:CA,NY'], logic: 'and' }
+ */
+export const computeFilterParams = (filterModel?: GridFilterModel) => {
+  const filter: string[] = [];
+
+  filterModel?.items?.forEach((item) => {
+    const operator = item.operatorValue
+      ? GRID_TO_API_OPERATORS[item.operatorValue]
+      : undefined;
+    if (!operator) return;
+
+    if (operator === 'isEmpty' || operator === 'isNotEmpty') {
+      filter.push(`${item.columnField}:${operator}:`);
+      return;
+    }
+
+    // Filters not filled yet in the filter panel are ignored
+    const values: unknown[] = Array.isArray(item.value)
+      ? item.value
+      : [item.value];
+    const filledValues = values.filter(
+      (value) => value !== undefined && value !== null && value !== ''
+    );
+    if (!filledValues.length) return;
+    if (operator === 'between' && filledValues.length < 2) return;
+
+    filter.push(`${item.columnField}:${operator}:${filledValues.join(',')}`);
+  });
+
+  const logic: FilterLogic = filterModel?.linkOperator === 'or' ? 'or' : 'and';
+
+  return { filter, logic };
+};
+
+/**
+ * Convert the DataGrid sort model into the sort segments of the employees API path
+ * @param sortModel - the DataGrid sort model, the first item sorting first
+ * @returns The sort fields and their orders, joined by '_', or 'noSort' if the employees are not sorted
+ * @example computeSortParams([{ field: 'lastName', sort: 'asc' }, { field: 'firstName', sort: 'desc' }])
+ * // { fields: 'lastName_firstName', orders: 'asc_desc' }
+ */
+export const computeSortParams = (sortModel: GridSortModel = []) => {
+  const items = sortModel.filter((item) => item.sort);
+  if (!items.length) return { fields: 'noSort', orders: 'noSort' };
+
+  return {
+    fields: items.map((item) => item.field).join('_'),
+    orders: items.map((item) => item.sort).join('_'),
+  };
+};
+
 /**
  * Data fetching function
  * @async
- * @param page - the page of employees to be fetched
- * @param sortingField - field for sorting employee (first name, last name, DOB, etc.)
- * @param sortingOrder - order for sorting data (asc or desc)
- * @param filters - filters for filtering data
- * @returns The page of the sorted and filtered employees from server
+ * @param range - the employees to be fetched: limit employees from the offset-th one
+ * @param sortModel - fields and orders for sorting employees (first name, last name, DOB, etc.), the first one sorting first
+ * @param filterModel - quick filter values and column filters for filtering data
+ * @param archived - true to fetch the former (archived) employees instead of the current ones
+ * @returns The range of the sorted and filtered employees from server
+ * @throws {Error} - if the response does not match the OpenAPI contract
  */
 export const fetchEmployees = async (
-  page: number,
-  sortingField?: string,
-  sortingOrder?: GridSortDirection,
-  filters?: string
+  { offset, limit }: EmployeesRange,
+  sortModel?: GridSortModel,
+  filterModel?: GridFilterModel,
+  archived?: boolean
 ): Promise<GetEmployeesResponse> => {
-  const response = await client.get(
-    `${
-      ENDPOINTS.employees
-    }/page/${page}/sort/${sortingField}/${sortingOrder}/filters/${
-      filters || 'noFilter'
-    }`
+  const quickFilters = filterModel?.quickFilterValues
+    ?.join('_')
+    ?.split('/')
+    ?.join('-');
+
+  const { fields, orders } = computeSortParams(sortModel);
+
+  // The page of the path is only informative, the server sends the range of the offset and the limit
+  const url = `${ENDPOINTS.employees}/page/${Math.floor(
+    offset / limit
+  )}/sort/${fields}/${orders}/filters/${quickFilters || 'noFilter'}`;
+  const response = await client.get(url, {
+    params: {
+      offset,
+      limit,
+      ...computeFilterParams(filterModel),
+      archived: archived || undefined,
+    },
+  });
+  // A response drifting from the contract is an error, not an empty grid
+  const data = assertResponseMatchesContract(
+    response.data,
+    'GetEmployeesResponse',
+    `GET ${url}`
   );
-  return response.data;
+  return { ...data, employees: data.employees.map(decodeEmployee) };
 };
 
 /**
- * Custom hook for fetching employees with React Query
- * @param pageOnClient - page on client side to be fetched
- * @param pageSizeOnClient - page size on client size
- * @param enabled - for enabling or disabling the query
+ * Fetch all the employees matching the sorting and filtering options, walking every server page
+ * @async
  * @param queryOptions - filtering and sorting options
- * @returns The page of the sorted and filtered employees from server
+ * @returns All the sorted and filtered employees from server
  */
-export const useEmployees = (
-  pageOnClient: number,
-  pageSizeOnClient: number,
-  enabled: boolean,
+export const fetchAllEmployees = async (
   queryOptions: QueryOptionsInterface
-) => {
-  // Page on server side to be fetched
-  const pageOnServer = Math.floor(
-    (pageOnClient * pageSizeOnClient) / SERVER_PAGE_SIZE
+): Promise<Employee[]> => {
+  const fetchPage = (page: number) =>
+    fetchEmployees(
+      { offset: page * SERVER_PAGE_SIZE, limit: SERVER_PAGE_SIZE },
+      queryOptions.sortModel,
+      queryOptions.filterModel,
+      queryOptions.archived
+    );
+
+  const firstPage = await fetchPage(0);
+  const pageCount = Math.ceil(firstPage.total / SERVER_PAGE_SIZE);
+  const otherPages = await Promise.all(
+    Array.from({ length: Math.max(pageCount - 1, 0) }, (_, index) =>
+      fetchPage(index + 1)
+    )
   );
 
-  // The React-Query hook
-  const query = useQuery(
-    ['employees', pageOnServer, queryOptions],
-    () =>
+  return [firstPage, ...otherPages].flatMap((page) => page.employees);
+};
+
+/**
+ * The query of a page of the grid: the server sends exactly the rows of the page, whatever its size
+ * @param page - page of the grid, starting at 0
+ * @param pageSize - number of rows of the pages of the grid
+ * @param queryOptions - filtering and sorting options
+ * @returns The key and the function of the query
+ */
+const employeesPageQuery = (
+  page: number,
+  pageSize: number,
+  queryOptions: QueryOptionsInterface
+) => {
+  const range: EmployeesRange = { offset: page * pageSize, limit: pageSize };
+  return {
+    queryKey: ['employees', range, queryOptions] as const,
+    queryFn: () =>
       fetchEmployees(
-        pageOnServer,
-        queryOptions.sortModel[0]?.field,
-        queryOptions.sortModel[0]?.sort,
-        queryOptions.filterModel.quickFilterValues
-          ?.join('_')
-          ?.split('/')
-          ?.join('-')
+        range,
+        queryOptions.sortModel,
+        queryOptions.filterModel,
+        queryOptions.archived
       ),
-    {
-      keepPreviousData: true,
-      staleTime: 5000,
-      enabled,
-    }
-  );
-
-  /**
-   * The data returned by the server needs to be sliced because pagination on client and server sides are different
-   */
+  };
+};
 
-  // The first row of the slice
-  const start = (pageOnClient * pageSizeOnClient) % SERVER_PAGE_SIZE;
-  // The last row of the slice
-  const end =
-    ((pageOnClient + 1) * pageSizeOnClient) % SERVER_PAGE_SIZE ||
-    SERVER_PAGE_SIZE;
+/**
+ * Custom hook for fetching employees with React Query
+ * @param page - page of the grid to be fetched
+ * @param pageSize - number of rows of the pages of the grid
+ * @param enabled - for enabling or disabling the query
+ * @param queryOptions - filtering and sorting options
+ * @returns The page of the sorted and filtered employees from server
+ */
+export const useEmployees = (
+  page: number,
+  pageSize: number,
+  enabled: boolean,
+  queryOptions: QueryOptionsInterface
+) =>
+  useQuery({
+    ...employeesPageQuery(page, pageSize, queryOptions),
+    keepPreviousData: true,
+    staleTime: 5000,
+    enabled,
+  });
 
-  const employeesSlice = query.data?.employees?.slice(start, end);
-  const dataPaginated = employeesSlice
-    ? { ...query.data, employees: employeesSlice }
-    : query.data;
+/**
+ * Custom hook for loading the employees page after page as the user scrolls, with React Query
+ * The first page is the one of the start row, the previous and the next pages being loaded on demand,
+ * so that the list can open in the middle of the employees without loading the ones above.
+ * @param queryOptions - filtering and sorting options
+ * @param startRow - index of the first row to be loaded, e.g. the first row of the page shown by the grid
+ * @param enabled - for enabling or disabling the query
+ * @returns The pages loaded so far, each with the index of its first employee, and the functions loading the previous and the next pages
+ * @example const { data, fetchNextPage, fetchPreviousPage } = useInfiniteEmployees(queryOptions, 120, true);
+ */
+export const useInfiniteEmployees = (
+  queryOptions: QueryOptionsInterface,
+  startRow: number,
+  enabled: boolean
+) => {
+  const startOffset =
+    Math.floor(startRow / SCROLL_PAGE_SIZE) * SCROLL_PAGE_SIZE;
 
-  return { ...query, data: dataPaginated };
+  return useInfiniteQuery({
+    queryKey: ['employees', 'infinite', queryOptions, startOffset],
+    queryFn: async ({ pageParam = startOffset }) => ({
+      ...(await fetchEmployees(
+        { offset: pageParam, limit: SCROLL_PAGE_SIZE },
+        queryOptions.sortModel,
+        queryOptions.filterModel,
+        queryOptions.archived
+      )),
+      offset: pageParam as number,
+    }),
+    // The next page starts after the last employee loaded, an empty page ending the list
+    getNextPageParam: (lastPage) => {
+      const nextOffset = lastPage.offset + lastPage.employees.length;
+      return lastPage.employees.length && nextOffset < lastPage.total
+        ? nextOffset
+        : undefined;
+    },
+    // The previous page ends before the first employee loaded, or is the last page when the start row is past the end
+    getPreviousPageParam: (firstPage) => {
+      if (firstPage.offset <= 0) return undefined;
+      const lastOffset =
+        Math.floor((firstPage.total - 1) / SCROLL_PAGE_SIZE) * SCROLL_PAGE_SIZE;
+      return Math.max(
+        Math.min(firstPage.offset - SCROLL_PAGE_SIZE, lastOffset),
+        0
+      );
+    },
+    keepPreviousData: true,
+    staleTime: 5000,
+    enabled,
+  });
 };
 
 /**
@@ -142,26 +407,10 @@ export const usePrefetchEmployees = (
   const queryClient = useQueryClient();
   useEffect(() => {
     pagesToPrefetch.forEach((page) => {
-      const pageOnServerToFetch = Math.floor(
-        (page * pageSize) / SERVER_PAGE_SIZE
-      );
-
-      queryClient.prefetchQuery(
-        ['employees', pageOnServerToFetch, queryOptions],
-        () =>
-          fetchEmployees(
-            pageOnServerToFetch,
-            queryOptions.sortModel[0]?.field,
-            queryOptions.sortModel[0]?.sort,
-            queryOptions.filterModel.quickFilterValues
-              ?.join('_')
-              ?.split('/')
-              ?.join('-')
-          ),
-        {
-          staleTime: 5000,
-        }
-      );
+      queryClient.prefetchQuery({
+        ...employeesPageQuery(page, pageSize, queryOptions),
+        staleTime: 5000,
+      });
     });
     // We don't want pagesToPrefetch to be in the dependency array because it's local scope logic
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -170,6 +419,7 @@ export const usePrefetchEmployees = (
 
 /**
  * useCreateEmployee is a hook that allows you to handle the creation of employees.
+ * The server refuses the likely duplicates of existing employees with a 409 status, unless allowDuplicates is true.
  *
  * @param {(data: AxiosResponse) => void} [onSuccess] - callback function to be called on successful creation of employee.
  * @param {(err: unknown) => void} [onError] - callback function to be called on error during the creation of employee.
@@ -177,10 +427,11 @@ export const usePrefetchEmployees = (
  * @returns {MutationFunctionResult<AxiosResponse, unknown>} - An object that contains the result of the mutation.
  *
  * @example
- * const { status, data, error } = useCreateEmployee(
+ * const { mutate } = useCreateEmployee(
  *  (data) => { console.log(data) },
  *  (err) => { console.log(err) }
  * );
+ * mutate({ employee, allowDuplicates: true });
  */
 export const useCreateEmployee = (
   onSuccess?: (data: AxiosResponse) => void,
@@ -189,8 +440,91 @@ export const useCreateEmployee = (
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (employee: Omit<Employee, 'id'>) => {
-      return client.post(`/employees`, employee);
+    mutationFn: ({
+      employee,
+      allowDuplicates = false,
+    }: {
+      employee: EmployeeAttributes;
+      allowDuplicates?: boolean;
+    }) => {
+      return client.post(`/employees`, encodeEmployee(employee), {
+        params: allowDuplicates ? { allowDuplicates } : undefined,
+      });
+    },
+    onSuccess: (data) => {
+      if (onSuccess) onSuccess(data);
+      queryClient.invalidateQueries(['employees']);
+    },
+    onError: (err) => {
+      if (onError) onError(err);
+    },
+  });
+};
+
+/**
+ * useCheckDuplicateEmployees is a hook looking for the likely duplicates of an employee before creating it.
+ * Candidates are scored by the server on name similarity, date of birth and address.
+ *
+ * @param {(duplicates: DuplicateCandidate[]) => void} [onSuccess] - callback function to be called with the likely duplicates, the most likely first.
+ * @param {(err: unknown) => void} [onError] - callback function to be called if the check failed.
+ *
+ * @returns {UseMutationResult<DuplicateCandidate[]>} - An object that contains the result of the check.
+ *
+ * @example
+ * const { mutate } = useCheckDuplicateEmployees((duplicates) => console.log(duplicates));
+ * mutate(employee);
+ */
+export const useCheckDuplicateEmployees = (
+  onSuccess?: (duplicates: DuplicateCandidate[]) => void,
+  onError?: (err: unknown) => void
+) =>
+  useMutation({
+    mutationFn: async (
+      employee: EmployeeAttributes
+    ): Promise<DuplicateCandidate[]> => {
+      const response = await client.post<CheckDuplicateEmployeesResponse>(
+        `${ENDPOINTS.employees}/duplicates`,
+        encodeEmployee(employee)
+      );
+      return response.data.duplicates.map((duplicate) => ({
+        ...duplicate,
+        employee: decodeEmployee(duplicate.employee),
+      }));
+    },
+    onSuccess: (duplicates) => {
+      if (onSuccess) onSuccess(duplicates);
+    },
+    onError: (err) => {
+      if (onError) onError(err);
+    },
+  });
+
+/**
+ * useCreateEmployees is a hook that allows you to create several employees in one request.
+ * Each employee is created independently: likely duplicates are reported with a 409 status in the results.
+ *
+ * @param {(data: BulkCreateEmployeesResponse) => void} [onSuccess] - callback function to be called with the status of every employee.
+ * @param {(err: unknown) => void} [onError] - callback function to be called if the whole request failed.
+ *
+ * @returns {UseMutationResult<BulkCreateEmployeesResponse>} - An object that contains the result of the mutation.
+ *
+ * @example
+ * const { mutate } = useCreateEmployees((data) => console.log(data.results));
+ * mutate([employee1, employee2]);
+ */
+export const useCreateEmployees = (
+  onSuccess?: (data: BulkCreateEmployeesResponse) => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (employees: EmployeeAttributes[]) => {
+      const response = await client.post<BulkCreateEmployeesResponse>(
+        `${ENDPOINTS.employees}/bulk`,
+        { employees: employees.map(encodeEmployee) }
+      );
+      return response.data;
     },
     onSuccess: (data) => {
       if (onSuccess) onSuccess(data);
@@ -202,8 +536,120 @@ export const useCreateEmployee = (
   });
 };
 
+/**
+ * Page of employees loaded by the scroll mode, with the index of its first employee
+ */
+type InfiniteEmployeesPage = GetEmployeesResponse & { offset: number };
+
+/**
+ * Employees in cache: a page of the grid, or the pages loaded by the scroll mode
+ */
+type CachedEmployees =
+  | GetEmployeesResponse
+  | InfiniteData<InfiniteEmployeesPage>;
+
+/**
+ * Snapshot of the pages of employees in cache, taken before an optimistic update
+ */
+type EmployeesCacheSnapshot = [QueryKey, CachedEmployees | undefined][];
+
+/**
+ * Write into the pages loaded by the scroll mode
+ * The employees removed from a page move the following pages up, and are taken off the total of every page.
+ * @param data - the pages loaded by the scroll mode
+ * @param updater - function returning the updated page
+ * @returns The updated pages
+ */
+const updateInfinitePages = (
+  data: InfiniteData<InfiniteEmployeesPage>,
+  updater: (page: GetEmployeesResponse) => GetEmployeesResponse
+): InfiniteData<InfiniteEmployeesPage> => {
+  let removedCount = 0;
+  const pages = data.pages.map((page) => {
+    const updated = updater(page);
+    const offset = page.offset - removedCount;
+    removedCount += page.employees.length - updated.employees.length;
+    return { ...updated, offset };
+  });
+  return {
+    ...data,
+    pages: pages.map((page, index) => ({
+      ...page,
+      total: data.pages[index].total - removedCount,
+    })),
+  };
+};
+
+/**
+ * Write into every page of employees in cache, the ones of the grid and the ones of the scroll mode
+ * @param queryClient - the React Query client
+ * @param updater - function returning the updated page
+ */
+const writeCachedPages = (
+  queryClient: QueryClient,
+  updater: (page: GetEmployeesResponse) => GetEmployeesResponse
+) => {
+  queryClient.setQueriesData<CachedEmployees | undefined>(
+    ['employees'],
+    (data) => {
+      if (data && 'pages' in data) return updateInfinitePages(data, updater);
+      return data?.employees ? updater(data) : data;
+    }
+  );
+};
+
+/**
+ * Optimistically write into every page of employees in cache
+ * @param queryClient - the React Query client
+ * @param updater - function returning the updated page
+ * @returns The snapshot of the pages before the update, to roll back on error
+ */
+const updateCachedPages = async (
+  queryClient: QueryClient,
+  updater: (page: GetEmployeesResponse) => GetEmployeesResponse
+): Promise<EmployeesCacheSnapshot> => {
+  // Outgoing refetches would overwrite the optimistic update
+  await queryClient.cancelQueries(['employees']);
+
+  const snapshot = queryClient.getQueriesData<CachedEmployees>(['employees']);
+  writeCachedPages(queryClient, updater);
+  return snapshot;
+};
+
+/**
+ * Optimistically remove an employee from every page of employees in cache
+ * @param queryClient - the React Query client
+ * @param id - the id of the employee
+ * @returns The snapshot of the pages before the update, to roll back on error
+ */
+const removeFromCachedPages = (queryClient: QueryClient, id: string) =>
+  updateCachedPages(queryClient, (page) => {
+    const employees = page.employees.filter((e) => e.id !== id);
+    return {
+      ...page,
+      employees,
+      total: page.total - (page.employees.length - employees.length),
+    };
+  });
+
+/**
+ * Roll back the pages of employees in cache to a snapshot
+ * @param queryClient - the React Query client
+ * @param snapshot - the snapshot taken before the optimistic update
+ */
+const restoreCachedPages = (
+  queryClient: QueryClient,
+  snapshot?: EmployeesCacheSnapshot
+) => {
+  snapshot?.forEach(([queryKey, page]) => {
+    queryClient.setQueryData(queryKey, page);
+  });
+};
+
 /**
  * Custom hook for performing a delete mutation on an employee using the provided id.
+ * The employee is archived by the server: it moves from the current employees to the former ones.
+ * The employee is optimistically removed from the cached pages, which are rolled back if the server fails.
  * @param {(id: string) => void} onSuccess - callback function to be executed upon a successful deletion
  * @param {(err: unknown) => void} onError - callback function to be executed upon an error during the deletion
  * @returns {MutationTuple<unknown, unknown, unknown>} - a tuple containing the mutate function and the result of the mutation
@@ -221,35 +667,538 @@ export const useDeleteEmployee = (
     mutationFn: (id: string) => {
       return client.delete(`/employees/${id}`);
     },
+    // Remove the employee from every cached page before the server answers
+    onMutate: async (id) => ({
+      snapshot: await removeFromCachedPages(queryClient, id),
+    }),
     onSuccess: (_data, id) => {
       if (onSuccess) onSuccess(id);
+    },
+    onError: (err, _id, context) => {
+      restoreCachedPages(queryClient, context?.snapshot);
+      if (onError) onError(err);
+    },
+    onSettled: (_data, _err, id) => {
       queryClient.invalidateQueries(['employees']);
+      queryClient.invalidateQueries(['employee', id]);
+      queryClient.invalidateQueries(['reports']);
     },
-    onError: (err) => {
+  });
+};
+
+/**
+ * Custom hook for restoring an archived employee using the provided id.
+ * The employee is optimistically removed from the cached pages of former employees, which are rolled back if the server fails.
+ * @param {(id: string) => void} onSuccess - callback function to be executed upon a successful restoration
+ * @param {(err: unknown) => void} onError - callback function to be executed upon an error during the restoration
+ * @returns {UseMutationResult} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useRestoreEmployee(id => console.log(id), err => console.log(err));
+ * mutate("some-employee-id");
+ */
+export const useRestoreEmployee = (
+  onSuccess?: (id: string) => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => {
+      return client.post(`${ENDPOINTS.employees}/${id}/restore`);
+    },
+    onMutate: async (id) => ({
+      snapshot: await removeFromCachedPages(queryClient, id),
+    }),
+    onSuccess: (_data, id) => {
+      if (onSuccess) onSuccess(id);
+    },
+    onError: (err, _id, context) => {
+      restoreCachedPages(queryClient, context?.snapshot);
       if (onError) onError(err);
     },
+    onSettled: (_data, _err, id) => {
+      queryClient.invalidateQueries(['employees']);
+      queryClient.invalidateQueries(['employee', id]);
+      queryClient.invalidateQueries(['reports']);
+    },
   });
 };
 
+/**
+ * Custom hook for permanently deleting an archived employee using the provided id.
+ * The employee is optimistically removed from the cached pages of former employees, which are rolled back if the server fails.
+ * @param {(id: string) => void} onSuccess - callback function to be executed upon a successful purge
+ * @param {(err: unknown) => void} onError - callback function to be executed upon an error during the purge
+ * @returns {UseMutationResult} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = usePurgeEmployee(id => console.log(id), err => console.log(err));
+ * mutate("some-employee-id");
+ */
+export const usePurgeEmployee = (
+  onSuccess?: (id: string) => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => {
+      return client.post(`${ENDPOINTS.employees}/${id}/purge`);
+    },
+    onMutate: async (id) => ({
+      snapshot: await removeFromCachedPages(queryClient, id),
+    }),
+    onSuccess: (_data, id) => {
+      if (onSuccess) onSuccess(id);
+    },
+    onError: (err, _id, context) => {
+      restoreCachedPages(queryClient, context?.snapshot);
+      if (onError) onError(err);
+    },
+    onSettled: (_data, _err, id) => {
+      queryClient.invalidateQueries(['employees']);
+      queryClient.invalidateQueries(['employee', id]);
+      queryClient.invalidateQueries(['reports']);
+    },
+  });
+};
+
+/**
+ * Extract the employee as it is now on the server from the 412 response of an update
+ * @param err - the error of the update
+ * @returns The current employee, or undefined if the update failed for another reason
+ */
+export const getConflictingEmployee = (err: unknown): Employee | undefined => {
+  if (axios.isAxiosError(err) && err.response?.status === 412) {
+    const { employee } = err.response.data as EmployeeConflictResponse;
+    return decodeEmployee(employee);
+  }
+  return undefined;
+};
+
+/**
+ * Read the version of an employee from the ETag header of a response
+ * @param etag - the ETag header, e.g. "3" or W/"3"
+ * @returns The version, or undefined if the header is missing or is not a version
+ */
+const parseVersionETag = (etag: unknown): number | undefined => {
+  const version = Number(String(etag).replace(/^W\//, '').replace(/"/g, ''));
+  return Number.isInteger(version) ? version : undefined;
+};
+
 /**
  * Custom hook that exposes a mutation function that allows to update an Employee in the server.
- * @param {(employee: Employee) => void} [onSuccess] - Callback function that will be called when the request succeed.
- * @param {(err: unknown) => void} [onError] - Callback function that will be called when the request failed.
+ * The employee is optimistically written into the cached pages, which are rolled back if the server fails.
+ * The version of the employee is sent in the If-Match header: the server answers 412 if someone else changed it since,
+ * see getConflictingEmployee. Once updated, the new version of the employee is written into the caches right away,
+ * so that a second edit made before the refetch is not refused as a conflict with the user's own change.
+ * @param {(employee: Employee) => void} [onSuccess] - Callback function that will be called with the updated employee, at its new version, when the request succeed.
+ * @param {(err: unknown, employee: Employee) => void} [onError] - Callback function that will be called with the employee sent when the request failed.
  * @returns {UseMutationResult<Employee>} - an object that contains the function to execute the mutation and the state of the mutation
  */
 export const useUpdateEmployee = (
   onSuccess?: (employee: Employee) => void,
+  onError?: (err: unknown, employee: Employee) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (employee: Employee): Promise<Employee> => {
+      const response = await client.put(
+        `/employees/${employee.id}`,
+        encodeEmployee(employee),
+        { headers: { 'If-Match': `"${employee.version}"` } }
+      );
+      return {
+        ...employee,
+        version:
+          parseVersionETag(response.headers.etag) ?? employee.version + 1,
+      };
+    },
+    // Write the employee into every cached page before the server answers
+    onMutate: async (employee) => {
+      const snapshot = await updateCachedPages(queryClient, (page) => ({
+        ...page,
+        employees: page.employees.map((e) =>
+          e.id === employee.id ? { ...e, ...employee } : e
+        ),
+      }));
+
+      await queryClient.cancelQueries(['employee', employee.id]);
+      const previousEmployee = queryClient.getQueryData<Employee>([
+        'employee',
+        employee.id,
+      ]);
+      if (previousEmployee) {
+        queryClient.setQueryData<Employee>(['employee', employee.id], {
+          ...previousEmployee,
+          ...employee,
+        });
+      }
+
+      return { snapshot, previousEmployee };
+    },
+    onSuccess: (updated) => {
+      writeCachedPages(queryClient, (page) => ({
+        ...page,
+        employees: page.employees.map((e) =>
+          e.id === updated.id ? { ...e, version: updated.version } : e
+        ),
+      }));
+      queryClient.setQueryData<Employee>(
+        ['employee', updated.id],
+        (previous) => previous && { ...previous, version: updated.version }
+      );
+      if (onSuccess) onSuccess(updated);
+    },
+    onError: (err, employee, context) => {
+      restoreCachedPages(queryClient, context?.snapshot);
+      if (context?.previousEmployee) {
+        queryClient.setQueryData(
+          ['employee', employee.id],
+          context.previousEmployee
+        );
+      }
+      if (onError) onError(err, employee);
+    },
+    // The active page is refetched in case the sorting or filtering changed
+    onSettled: (_data, _err, employee) => {
+      queryClient.invalidateQueries(['employees']);
+      queryClient.invalidateQueries(['employee', employee.id]);
+      queryClient.invalidateQueries(['reports']);
+    },
+  });
+};
+
+/**
+ * Custom hook applying the same action to several employees in one request.
+ * Each employee is processed independently: failures are reported with their status in the results.
+ * @param {(data: BatchEmployeesResponse) => void} [onSuccess] - callback function to be called with the status of every employee.
+ * @param {(err: unknown) => void} [onError] - callback function to be called if the whole request failed.
+ * @returns {UseMutationResult<BatchEmployeesResponse>} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useBatchEmployees((data) => console.log(data.results));
+ * mutate({ action: 'update', ids: [id1, id2], changes: { department: 'Sales' } });
+ */
+export const useBatchEmployees = (
+  onSuccess?: (data: BatchEmployeesResponse) => void,
   onError?: (err: unknown) => void
 ) => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (employee: Employee) => {
-      return client.put(`/employees/${employee.id}`, employee);
+    mutationFn: async (batchRequest: BatchEmployeesRequest) => {
+      const response = await client.post<BatchEmployeesResponse>(
+        `${ENDPOINTS.employees}/batch`,
+        batchRequest
+      );
+      return response.data;
+    },
+    onSuccess: (data) => {
+      if (onSuccess) onSuccess(data);
     },
-    onSuccess: (_data, employee) => {
-      if (onSuccess) onSuccess(employee);
+    onError: (err) => {
+      if (onError) onError(err);
+    },
+    onSettled: () => {
       queryClient.invalidateQueries(['employees']);
+      queryClient.invalidateQueries(['employee']);
+      queryClient.invalidateQueries(['reports']);
+    },
+  });
+};
+
+/**
+ * Fetch one employee
+ * @async
+ * @param id - the id of the employee to be fetched
+ * @returns The employee from server
+ */
+export const fetchEmployee = async (id: string): Promise<Employee> => {
+  const response = await client.get<GetEmployeeResponse>(
+    `${ENDPOINTS.employees}/${id}`
+  );
+  return decodeEmployee(response.data.employee);
+};
+
+/**
+ * Look for an employee in the pages already loaded by useEmployees
+ * @param queryClient - the React Query client
+ * @param id - the id of the employee
+ * @returns The employee and the time its page was fetched, or undefined if not in cache
+ */
+const findCachedEmployee = (queryClient: QueryClient, id?: string) => {
+  if (!id) return undefined;
+
+  let found: { employee: Employee; updatedAt: number } | undefined;
+  queryClient
+    .getQueryCache()
+    .findAll(['employees'])
+    .forEach((query) => {
+      const data = query.state.data as GetEmployeesResponse | undefined;
+      const employee = data?.employees?.find((e) => e.id === id);
+      if (employee && (!found || query.state.dataUpdatedAt > found.updatedAt)) {
+        found = { employee, updatedAt: query.state.dataUpdatedAt };
+      }
+    });
+
+  return found;
+};
+
+/**
+ * Custom hook for fetching one employee with React Query.
+ * The cache is seeded with the employee if it was already loaded in a page by useEmployees.
+ * @param id - the id of the employee to be fetched, the query is disabled while undefined
+ * @returns The employee from server
+ * @example const { data: employee, isError, error } = useEmployee(id);
+ */
+export const useEmployee = (id?: string) => {
+  const queryClient = useQueryClient();
+
+  return useQuery(['employee', id], () => fetchEmployee(id as string), {
+    enabled: !!id,
+    staleTime: 5000,
+    initialData: () => findCachedEmployee(queryClient, id)?.employee,
+    initialDataUpdatedAt: () => findCachedEmployee(queryClient, id)?.updatedAt,
+    // An unknown employee won't appear by retrying
+    retry: (failureCount, err) =>
+      !(axios.isAxiosError(err) && err.response?.status === 404) &&
+      failureCount < 3,
+  });
+};
+
+/**
+ * Fetch the change history of one employee
+ * @async
+ * @param id - the id of the employee
+ * @returns The audit events of the employee, the most recent first
+ */
+export const fetchEmployeeHistory = async (
+  id: string
+): Promise<AuditEvent[]> => {
+  const response = await client.get<GetEmployeeHistoryResponse>(
+    `${ENDPOINTS.employees}/${id}/history`
+  );
+  return response.data.events;
+};
+
+/**
+ * Custom hook for fetching the change history of one employee with React Query.
+ * The history is refetched whenever the employee is updated since it shares the ['employee', id] query key prefix.
+ * @param id - the id of the employee, the query is disabled while undefined
+ * @returns The audit events of the employee, the most recent first
+ * @example const { data: events } = useEmployeeHistory(id);
+ */
+export const useEmployeeHistory = (id?: string) =>
+  useQuery(
+    ['employee', id, 'history'],
+    () => fetchEmployeeHistory(id as string),
+    {
+      enabled: !!id,
+      staleTime: 5000,
+    }
+  );
+
+/**
+ * Custom hook searching the current employees by name, e.g. to pick a manager.
+ * The employees found are cached under the ['employees'] key so that they are refreshed with the pages of the grid.
+ * @param search - the words to search, the query is disabled for less than 2 characters
+ * @param limit - the maximum number of employees returned
+ * @returns The first employees matching the search, sorted by last name
+ * @example const { data: employees = [] } = useSearchEmployees('john');
+ */
+export const useSearchEmployees = (search: string, limit = 10) =>
+  useQuery(
+    ['employees', 'search', search, limit],
+    () =>
+      fetchEmployees(
+        { offset: 0, limit },
+        [{ field: 'lastName', sort: 'asc' }],
+        {
+          items: [],
+          quickFilterValues: search.split(' ').filter((word) => word !== ''),
+        }
+      ),
+    {
+      enabled: search.trim().length > 1,
+      staleTime: 5000,
+      select: (data) => data.employees,
+    }
+  );
+
+/**
+ * Fetch the employees reporting to an employee
+ * @async
+ * @param id - the id of the manager, null for the top of the hierarchy
+ * @param transitive - true to fetch the reports of the reports too
+ * @returns The reports sorted by name, with their number of direct reports
+ */
+export const fetchEmployeeReports = async (
+  id: string | null,
+  transitive = false
+): Promise<EmployeeReport[]> => {
+  const response = await client.get<GetEmployeeReportsResponse>(
+    id ? `${ENDPOINTS.employees}/${id}/reports` : ENDPOINTS.orgChart,
+    { params: { transitive: transitive || undefined } }
+  );
+  return response.data.reports.map(decodeEmployee);
+};
+
+/**
+ * Custom hook for fetching the direct reports of an employee with React Query, to load the org chart one subtree at a time.
+ * Every ['reports'] query is invalidated when an employee is updated, archived, restored or purged.
+ * @param id - the id of the manager, null for the top of the hierarchy
+ * @param enabled - false while the subtree is collapsed
+ * @returns The direct reports sorted by name, with their number of direct reports
+ * @example const { data: reports } = useEmployeeReports(id, isExpanded);
+ */
+export const useEmployeeReports = (id: string | null, enabled = true) =>
+  useQuery(['reports', id], () => fetchEmployeeReports(id), {
+    enabled,
+    staleTime: 30000,
+  });
+
+/**
+ * Fetch the catalogue of departments
+ * @async
+ * @returns The departments sorted by name, with their number of employees
+ */
+export const fetchDepartments = async (): Promise<DepartmentRecord[]> => {
+  const response = await client.get<GetDepartmentsResponse>(
+    ENDPOINTS.departments
+  );
+  return response.data.departments;
+};
+
+/**
+ * Custom hook for fetching the catalogue of departments with React Query.
+ * @returns The departments sorted by name, with their number of employees
+ * @example const { data: departments = [] } = useDepartments();
+ */
+export const useDepartments = () =>
+  useQuery(['departments'], fetchDepartments, {
+    staleTime: 60000,
+  });
+
+/**
+ * Custom hook for adding a department to the catalogue.
+ * @param {(department: DepartmentRecord) => void} [onSuccess] - callback function to be called with the created department.
+ * @param {(err: unknown) => void} [onError] - callback function to be called if the request failed (409 if the name is already used).
+ * @returns {UseMutationResult<DepartmentRecord>} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useCreateDepartment();
+ * mutate('Finance');
+ */
+export const useCreateDepartment = (
+  onSuccess?: (department: DepartmentRecord) => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const response = await client.post<GetDepartmentResponse>(
+        ENDPOINTS.departments,
+        { name }
+      );
+      return response.data.department;
+    },
+    onSuccess: (department) => {
+      if (onSuccess) onSuccess(department);
+      queryClient.invalidateQueries(['departments']);
+    },
+    onError: (err) => {
+      if (onError) onError(err);
+    },
+  });
+};
+
+/**
+ * Custom hook for renaming a department of the catalogue.
+ * The employees of the department are moved to the new name by the server, so the employees queries are invalidated too.
+ * @param {(department: DepartmentRecord) => void} [onSuccess] - callback function to be called with the renamed department.
+ * @param {(err: unknown) => void} [onError] - callback function to be called if the request failed (409 if the name is already used).
+ * @returns {UseMutationResult<DepartmentRecord>} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useUpdateDepartment();
+ * mutate({ id, name: 'People' });
+ */
+export const useUpdateDepartment = (
+  onSuccess?: (department: DepartmentRecord) => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: Pick<DepartmentRecord, 'id' | 'name'>) => {
+      const response = await client.put<GetDepartmentResponse>(
+        `${ENDPOINTS.departments}/${id}`,
+        { name }
+      );
+      return response.data.department;
+    },
+    onSuccess: (department) => {
+      if (onSuccess) onSuccess(department);
+      queryClient.invalidateQueries(['departments']);
+      queryClient.invalidateQueries(['employees']);
+      queryClient.invalidateQueries(['employee']);
+    },
+    onError: (err) => {
+      if (onError) onError(err);
+    },
+  });
+};
+
+/**
+ * Custom hook for removing a department from the catalogue.
+ * The server refuses to delete a department which still has employees (409 with their count).
+ * @param {(id: string) => void} [onSuccess] - callback function to be called with the id of the deleted department.
+ * @param {(err: unknown) => void} [onError] - callback function to be called if the request failed.
+ * @returns {UseMutationResult} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useDeleteDepartment();
+ * mutate(id);
+ */
+export const useDeleteDepartment = (
+  onSuccess?: (id: string) => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => {
+      return client.delete(`${ENDPOINTS.departments}/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      if (onSuccess) onSuccess(id);
+      queryClient.invalidateQueries(['departments']);
+    },
+    onError: (err) => {
+      if (onError) onError(err);
+    },
+  });
+};
+
+/**
+ * Custom hook resetting the demo data of the server, every change made since the first visit being lost.
+ * Every query is invalidated, the cached data being outdated.
+ * @param {() => void} [onSuccess] - callback function to be called once the data are reset.
+ * @param {(err: unknown) => void} [onError] - callback function to be called on error.
+ * @returns {UseMutationResult} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useResetDemoData(() => console.log('Reset!'));
+ * mutate();
+ */
+export const useResetDemoData = (
+  onSuccess?: () => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => client.post(`${ENDPOINTS.demo}/reset`),
+    onSuccess: () => {
+      if (onSuccess) onSuccess();
+      queryClient.invalidateQueries();
     },
     onError: (err) => {
       if (onError) onError(err);
@@ -257,5 +1206,68 @@ export const useUpdateEmployee = (
   });
 };
 
-// TODO: create a GET /employees/:id query to fetch only one employee
-export const useEmployee = null;
+/**
+ * Custom hook reading the session of the signed in user: the component is rendered again when the user signs in or out,
+ * including when the session expires and can't be refreshed.
+ * @returns {Session | null} - the session and its user, null if nobody is signed in
+ * @example
+ * const session = useSession();
+ * if (session) console.log(session.user.name);
+ */
+export const useSession = () =>
+  useSyncExternalStore(subscribeSession, getSession);
+
+/**
+ * Custom hook signing in a user with their username and password.
+ * The cached data are cleared, the new user may not be allowed to see them.
+ * @param {(session: Session) => void} [onSuccess] - callback function to be called with the new session.
+ * @param {(err: unknown) => void} [onError] - callback function to be called if the request failed (401 for invalid credentials).
+ * @returns {UseMutationResult<Session>} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useLogin(() => navigate('/'));
+ * mutate({ username: 'admin', password: 'admin' });
+ */
+export const useLogin = (
+  onSuccess?: (session: Session) => void,
+  onError?: (err: unknown) => void
+) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (credentials: LoginRequest) => {
+      const response = await client.post<Session>(
+        `${ENDPOINTS.auth}/login`,
+        credentials
+      );
+      return response.data;
+    },
+    onSuccess: (session) => {
+      queryClient.clear();
+      setSession(session);
+      if (onSuccess) onSuccess(session);
+    },
+    onError: (err) => {
+      if (onError) onError(err);
+    },
+  });
+};
+
+/**
+ * Custom hook signing out the user: the server revokes the session, and the cached data are cleared.
+ * The user is signed out even if the server can't be reached.
+ * @returns {UseMutationResult} - an object that contains the function to execute the mutation and the state of the mutation
+ * @example
+ * const { mutate } = useLogout();
+ * mutate();
+ */
+export const useLogout = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => client.post(`${ENDPOINTS.auth}/logout`),
+    onSettled: () => {
+      setSession(null);
+      queryClient.clear();
+    },
+  });
+};
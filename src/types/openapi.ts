@@ -0,0 +1,857 @@
+/**
+ * This file was auto-generated by openapi-typescript.
+ * Do not make direct changes to the file.
+ */
+
+export interface paths {
+  '/auth/login': {
+    /** Sign in with a username and a password */
+    post: operations['login'];
+  };
+  '/auth/refresh': {
+    /** Exchange a refresh token for a new session */
+    post: operations['refreshSession'];
+  };
+  '/auth/logout': {
+    /** Sign out: the tokens of the session are revoked */
+    post: operations['logout'];
+  };
+  '/employees/page/{page}/sort/{sortingField}/{sortingOrder}/filters/{filters}': {
+    /** Read a page of employees, sorted and filtered */
+    get: operations['getEmployees'];
+  };
+  '/employees': {
+    /** Create an employee */
+    post: operations['createEmployee'];
+  };
+  '/employees/duplicates': {
+    /** Look for the likely duplicates of an employee before creating it */
+    post: operations['checkDuplicateEmployees'];
+  };
+  '/employees/bulk': {
+    /** Create several employees, each one independently */
+    post: operations['createEmployees'];
+  };
+  '/employees/batch': {
+    /** Apply the same action to several employees, each one independently */
+    post: operations['batchEmployees'];
+  };
+  '/employees/{id}': {
+    /** Read one employee */
+    get: operations['getEmployee'];
+    /** Update an employee */
+    put: operations['updateEmployee'];
+    /** Archive an employee, who can be restored or purged afterwards */
+    delete: operations['archiveEmployee'];
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+  };
+  '/employees/{id}/restore': {
+    /** Restore an archived employee */
+    post: operations['restoreEmployee'];
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+  };
+  '/employees/{id}/purge': {
+    /** Destroy an archived employee permanently */
+    post: operations['purgeEmployee'];
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+  };
+  '/employees/{id}/history': {
+    /** Read the change history of an employee, the most recent first */
+    get: operations['getEmployeeHistory'];
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+  };
+  '/employees/{id}/reports': {
+    /** Read the employees reporting to an employee */
+    get: operations['getEmployeeReports'];
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+  };
+  '/org-chart': {
+    /** Read the top of the hierarchy: the employees reporting to nobody */
+    get: operations['getOrgChart'];
+  };
+}
+
+export type webhooks = Record<string, never>;
+
+export interface components {
+  schemas: {
+    /** @description The attributes of an employee that every user may see */
+    EmployeeCommonAttributes: {
+      firstName: string;
+      lastName: string;
+      /**
+       * Format: date
+       * @description A day, written yyyy-MM-dd, without time nor time zone
+       * @example 2020-01-31
+       */
+      startDate: string;
+      /** @description The name of a department of the catalogue */
+      department: string;
+      city: string;
+      /** @enum {string} */
+      state:
+        | 'AL'
+        | 'AK'
+        | 'AS'
+        | 'AZ'
+        | 'AR'
+        | 'CA'
+        | 'CO'
+        | 'CT'
+        | 'DE'
+        | 'DC'
+        | 'FM'
+        | 'FL'
+        | 'GA'
+        | 'GU'
+        | 'HI'
+        | 'ID'
+        | 'IL'
+        | 'IN'
+        | 'IA'
+        | 'KS'
+        | 'KY'
+        | 'LA'
+        | 'ME'
+        | 'MH'
+        | 'MD'
+        | 'MA'
+        | 'MI'
+        | 'MN'
+        | 'MS'
+        | 'MO'
+        | 'MT'
+        | 'NE'
+        | 'NV'
+        | 'NH'
+        | 'NJ'
+        | 'NM'
+        | 'NY'
+        | 'NC'
+        | 'ND'
+        | 'MP'
+        | 'OH'
+        | 'OK'
+        | 'OR'
+        | 'PW'
+        | 'PA'
+        | 'PR'
+        | 'RI'
+        | 'SC'
+        | 'SD'
+        | 'TN'
+        | 'TX'
+        | 'UT'
+        | 'VT'
+        | 'VI'
+        | 'VA'
+        | 'WA'
+        | 'WV'
+        | 'WI'
+        | 'WY';
+      /** @description Id of the employee this one reports to, null at the top of the hierarchy */
+      managerId?: string | null;
+    };
+    /** @description The personal data of an employee, only shown to the roles allowed to see it */
+    EmployeePersonalData: {
+      /**
+       * Format: date
+       * @description A day, written yyyy-MM-dd, without time nor time zone
+       * @example 2020-01-31
+       */
+      dateOfBirth: string;
+      street: string;
+      /**
+       * @description Exactly 5 digits, leading zeros included
+       * @example 01234
+       */
+      zipcode: string;
+    };
+    /** @description The attributes of an employee, as sent to create or update it */
+    EmployeeAttributes: components['schemas']['EmployeeCommonAttributes'] &
+      components['schemas']['EmployeePersonalData'];
+    /**
+     * @description The fields of the personal data of an employee
+     * @enum {string}
+     */
+    PersonalDataField: 'dateOfBirth' | 'street' | 'zipcode';
+    /** @description The personal data of an employee as sent to a user: the fields the role of the user does not allow to see are null */
+    MaskablePersonalData: {
+      /**
+       * Format: date
+       * @description A day, written yyyy-MM-dd, without time nor time zone
+       * @example 2020-01-31
+       */
+      dateOfBirth: string | null;
+      street: string | null;
+      /**
+       * @description Exactly 5 digits, leading zeros included
+       * @example 01234
+       */
+      zipcode: string | null;
+    };
+    /** @description An employee as sent to a user, with their personal data masked if the role of the user does not allow to see it */
+    Employee: components['schemas']['EmployeeCommonAttributes'] &
+      components['schemas']['MaskablePersonalData'] & {
+        id: string;
+        /** @description Incremented on every change of the employee, its entity tag is sent back in the If-Match header of the updates */
+        version: number;
+        /**
+         * Format: date-time
+         * @description Set when the employee is terminated: the record is archived, not destroyed
+         */
+        archivedAt?: string | null;
+        /** @description The personal data hidden from the user, whose values are null. Missing when nothing is hidden */
+        maskedFields?: components['schemas']['PersonalDataField'][];
+        /** @description The year of the date of birth, sent instead of it when the date of birth is hidden */
+        birthYear?: number;
+      };
+    /** @description An employee in the org chart, with the number of employees directly reporting to them */
+    EmployeeReport: components['schemas']['Employee'] & {
+      reportCount: number;
+    };
+    /** @enum {string} */
+    EmployeeField:
+      | 'firstName'
+      | 'lastName'
+      | 'startDate'
+      | 'department'
+      | 'dateOfBirth'
+      | 'street'
+      | 'city'
+      | 'state'
+      | 'zipcode'
+      | 'managerId';
+    EmployeeChange: {
+      field: components['schemas']['EmployeeField'];
+      before: string | number | null;
+      after: string | number | null;
+      /** @description true when the field is personal data the role of the user does not allow to see: before and after are then null */
+      masked?: boolean;
+    };
+    /** @enum {string} */
+    AuditAction: 'CREATE' | 'UPDATE' | 'ARCHIVE' | 'RESTORE' | 'DELETE';
+    AuditEvent: {
+      id: string;
+      employeeId: string;
+      action: components['schemas']['AuditAction'];
+      user: string;
+      /** Format: date-time */
+      date: string;
+      changes: components['schemas']['EmployeeChange'][];
+    };
+    /** @description An employee looking like the one being created, with a score from 0 to 1 and what they have in common */
+    DuplicateCandidate: {
+      employee: components['schemas']['Employee'];
+      score: number;
+      reasons: string[];
+    };
+    EmployeeId: {
+      id: string;
+    };
+    GetEmployeesResponse: {
+      /** @description The number of employees matching the filters, on every page */
+      total: number;
+      employees: components['schemas']['Employee'][];
+    };
+    GetEmployeeResponse: {
+      employee: components['schemas']['Employee'];
+    };
+    GetEmployeeHistoryResponse: {
+      events: components['schemas']['AuditEvent'][];
+    };
+    GetEmployeeReportsResponse: {
+      reports: components['schemas']['EmployeeReport'][];
+    };
+    CheckDuplicateEmployeesResponse: {
+      duplicates: components['schemas']['DuplicateCandidate'][];
+    };
+    BulkCreateEmployeesRequest: {
+      employees: components['schemas']['EmployeeAttributes'][];
+    };
+    BulkCreateEmployeesResult: {
+      index: number;
+      status: number;
+      id?: string;
+      error?: string;
+      errors?: components['schemas']['EmployeeValidationErrors'];
+    };
+    BulkCreateEmployeesResponse: {
+      results: components['schemas']['BulkCreateEmployeesResult'][];
+    };
+    BatchEmployeesRequest: {
+      /**
+       * @description 'archive' moves the employees to the former employees, 'update' applies the same changes to all of them
+       * @enum {string}
+       */
+      action: 'archive' | 'update';
+      ids: string[];
+      changes?: {
+        department?: string;
+      };
+    };
+    BatchEmployeesResult: {
+      id: string;
+      status: number;
+      error?: string;
+    };
+    BatchEmployeesResponse: {
+      results: components['schemas']['BatchEmployeesResult'][];
+    };
+    /** @description The first error message of every invalid field of an employee */
+    EmployeeValidationErrors: {
+      firstName?: string;
+      lastName?: string;
+      startDate?: string;
+      department?: string;
+      dateOfBirth?: string;
+      street?: string;
+      city?: string;
+      state?: string;
+      zipcode?: string;
+      managerId?: string;
+    };
+    EmployeeValidationErrorResponse: {
+      error: string;
+      errors: components['schemas']['EmployeeValidationErrors'];
+    };
+    DuplicateEmployeeErrorResponse: {
+      error: string;
+      duplicates: components['schemas']['DuplicateCandidate'][];
+    };
+    Error: {
+      error: string;
+      id?: string;
+    };
+    EmployeeConflictResponse: {
+      error: string;
+      employee: components['schemas']['Employee'];
+    };
+    /**
+     * @description viewer: read only. hrEditor: create, update, archive and restore the employees. admin: everything, including purging the employees, managing the departments and resetting the demo data
+     * @enum {string}
+     */
+    Role: 'viewer' | 'hrEditor' | 'admin';
+    User: {
+      id: string;
+      username: string;
+      name: string;
+      role: components['schemas']['Role'];
+    };
+    LoginRequest: {
+      username: string;
+      password: string;
+    };
+    RefreshSessionRequest: {
+      refreshToken: string;
+    };
+    Session: {
+      /** @description Sent as a bearer token in the Authorization header */
+      accessToken: string;
+      /** @description Exchanged for a new session once the access token has expired */
+      refreshToken: string;
+      /**
+       * Format: date-time
+       * @description Expiry of the access token
+       */
+      expiresAt: string;
+      user: components['schemas']['User'];
+    };
+  };
+  responses: {
+    /** @description Missing, invalid or expired access token */
+    Unauthorized: {
+      content: {
+        'application/json': components['schemas']['Error'];
+      };
+    };
+    /** @description The role of the user does not allow the operation */
+    Forbidden: {
+      content: {
+        'application/json': components['schemas']['Error'];
+      };
+    };
+  };
+  parameters: never;
+  requestBodies: never;
+  headers: {
+    /** @description Entity tag of the current version of the employee, e.g. "3" */
+    ETag: string;
+  };
+  pathItems: never;
+}
+
+export type $defs = Record<string, never>;
+
+export type external = Record<string, never>;
+
+export interface operations {
+  /** Sign in with a username and a password */
+  login: {
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['LoginRequest'];
+      };
+    };
+    responses: {
+      /** @description The new session */
+      201: {
+        content: {
+          'application/json': components['schemas']['Session'];
+        };
+      };
+      /** @description Invalid username or password */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Exchange a refresh token for a new session */
+  refreshSession: {
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['RefreshSessionRequest'];
+      };
+    };
+    responses: {
+      /** @description The new session, the previous tokens are revoked */
+      201: {
+        content: {
+          'application/json': components['schemas']['Session'];
+        };
+      };
+      /** @description Invalid or expired refresh token */
+      401: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Sign out: the tokens of the session are revoked */
+  logout: {
+    responses: {
+      /** @description The session is closed */
+      204: {
+        content: never;
+      };
+    };
+  };
+  /** Read a page of employees, sorted and filtered */
+  getEmployees: {
+    parameters: {
+      query?: {
+        /** @description Column filters: field:operator:value, e.g. department:is:Engineering */
+        'filter[]'?: string[];
+        logic?: 'and' | 'or';
+        /** @description true to list the former employees instead of the current ones */
+        archived?: boolean;
+        /** @description The index, starting at 0, of the first employee sent, whatever the size of the pages of the client */
+        offset?: number;
+        /** @description The largest number of employees sent, VITE_PAGE_LENGTH by default */
+        limit?: number;
+      };
+      path: {
+        /** @description The page, starting at 0, of limit employees, VITE_PAGE_LENGTH by default. Ignored when the offset is given */
+        page: number;
+        /** @description The fields to sort on joined by '_', the first one sorting first, e.g. lastName_firstName, 'noSort' for none. The employees without a value come last. */
+        sortingField: string;
+        /** @description The order, asc or desc, of every sort field joined by '_', e.g. asc_desc, 'noSort' for none */
+        sortingOrder: string;
+        /** @description The quick filter words joined by '_', 'noFilter' for none */
+        filters: string;
+      };
+    };
+    responses: {
+      /** @description The page of employees */
+      200: {
+        content: {
+          'application/json': components['schemas']['GetEmployeesResponse'];
+        };
+      };
+      /** @description Invalid column filters, sort, offset or limit */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      /** @description The column filters or the sort use personal data the role of the user does not allow to see */
+      403: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Create an employee */
+  createEmployee: {
+    parameters: {
+      query?: {
+        /** @description true to create the employee even if it looks like existing ones */
+        allowDuplicates?: boolean;
+      };
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['EmployeeAttributes'];
+      };
+    };
+    responses: {
+      /** @description The employee is created */
+      201: {
+        content: {
+          'application/json': components['schemas']['EmployeeId'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+      /** @description The employee looks like existing ones */
+      409: {
+        content: {
+          'application/json': components['schemas']['DuplicateEmployeeErrorResponse'];
+        };
+      };
+      /** @description Invalid employee */
+      422: {
+        content: {
+          'application/json': components['schemas']['EmployeeValidationErrorResponse'];
+        };
+      };
+    };
+  };
+  /** Look for the likely duplicates of an employee before creating it */
+  checkDuplicateEmployees: {
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['EmployeeAttributes'];
+      };
+    };
+    responses: {
+      /** @description The likely duplicates, the most likely first */
+      201: {
+        content: {
+          'application/json': components['schemas']['CheckDuplicateEmployeesResponse'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+    };
+  };
+  /** Create several employees, each one independently */
+  createEmployees: {
+    parameters: {
+      query?: {
+        allowDuplicates?: boolean;
+      };
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['BulkCreateEmployeesRequest'];
+      };
+    };
+    responses: {
+      /** @description The status of every employee */
+      201: {
+        content: {
+          'application/json': components['schemas']['BulkCreateEmployeesResponse'];
+        };
+      };
+      /** @description employees is not an array */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+    };
+  };
+  /** Apply the same action to several employees, each one independently */
+  batchEmployees: {
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['BatchEmployeesRequest'];
+      };
+    };
+    responses: {
+      /** @description The status of every employee */
+      201: {
+        content: {
+          'application/json': components['schemas']['BatchEmployeesResponse'];
+        };
+      };
+      /** @description Invalid action, ids or changes */
+      400: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+    };
+  };
+  /** Read one employee */
+  getEmployee: {
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+    responses: {
+      /** @description The employee */
+      200: {
+        headers: {
+          ETag: components['headers']['ETag'];
+        };
+        content: {
+          'application/json': components['schemas']['GetEmployeeResponse'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      /** @description Employee not found */
+      404: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Update an employee */
+  updateEmployee: {
+    parameters: {
+      header: {
+        /** @description Entity tag of the version of the employee that was edited: the update is refused if the employee has changed since, or if the header is missing */
+        'If-Match': string;
+      };
+      path: {
+        id: string;
+      };
+    };
+    requestBody: {
+      content: {
+        'application/json': components['schemas']['EmployeeAttributes'];
+      };
+    };
+    responses: {
+      /** @description The employee is updated */
+      200: {
+        headers: {
+          ETag: components['headers']['ETag'];
+        };
+        content: {
+          'application/json': components['schemas']['EmployeeId'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+      /** @description The employee is archived */
+      409: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description The employee was changed since the version of If-Match */
+      412: {
+        headers: {
+          ETag: components['headers']['ETag'];
+        };
+        content: {
+          'application/json': components['schemas']['EmployeeConflictResponse'];
+        };
+      };
+      /** @description Invalid employee */
+      422: {
+        content: {
+          'application/json': components['schemas']['EmployeeValidationErrorResponse'];
+        };
+      };
+      /** @description The If-Match header is missing */
+      428: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Employee does not exist */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Archive an employee, who can be restored or purged afterwards */
+  archiveEmployee: {
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+    responses: {
+      /** @description The employee is archived */
+      200: {
+        content: {
+          'application/json': components['schemas']['EmployeeId'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+      /** @description The employee is already archived */
+      409: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description Employee does not exist */
+      500: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Restore an archived employee */
+  restoreEmployee: {
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+    responses: {
+      /** @description The employee is restored */
+      201: {
+        content: {
+          'application/json': components['schemas']['EmployeeId'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+      /** @description Employee not found */
+      404: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description The employee is not archived */
+      409: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Destroy an archived employee permanently */
+  purgeEmployee: {
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+    responses: {
+      /** @description The employee is destroyed */
+      201: {
+        content: {
+          'application/json': components['schemas']['EmployeeId'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      403: components['responses']['Forbidden'];
+      /** @description Employee not found */
+      404: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+      /** @description The employee is not archived */
+      409: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Read the change history of an employee, the most recent first */
+  getEmployeeHistory: {
+    parameters: {
+      path: {
+        id: string;
+      };
+    };
+    responses: {
+      /** @description The audit events of the employee */
+      200: {
+        content: {
+          'application/json': components['schemas']['GetEmployeeHistoryResponse'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      /** @description Employee not found */
+      404: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Read the employees reporting to an employee */
+  getEmployeeReports: {
+    parameters: {
+      query?: {
+        /** @description true to read the reports of the reports too */
+        transitive?: boolean;
+      };
+      path: {
+        id: string;
+      };
+    };
+    responses: {
+      /** @description The reports, sorted by name */
+      200: {
+        content: {
+          'application/json': components['schemas']['GetEmployeeReportsResponse'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+      /** @description Employee not found */
+      404: {
+        content: {
+          'application/json': components['schemas']['Error'];
+        };
+      };
+    };
+  };
+  /** Read the top of the hierarchy: the employees reporting to nobody */
+  getOrgChart: {
+    responses: {
+      /** @description The employees at the top of the hierarchy */
+      200: {
+        content: {
+          'application/json': components['schemas']['GetEmployeeReportsResponse'];
+        };
+      };
+      401: components['responses']['Unauthorized'];
+    };
+  };
+}
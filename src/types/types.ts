@@ -1,7 +1,11 @@
 // import { GridFilterModel, GridSortModel } from '@mui/x-data-grid';
-
 import { GridFilterModel, GridSortModel } from '@mui/x-data-grid';
 
+import type { components } from './openapi';
+
+// Schemas of the employees API contract, generated from src/openapi/openapi.json
+type Schemas = components['schemas'];
+
 export type ChildrenProps = {
   children?: React.ReactNode;
 };
@@ -70,47 +74,213 @@ export const STATES = {
 export type StateName = typeof STATES[keyof typeof STATES];
 export type StateAbbreviation = keyof typeof STATES;
 
-export const DEPARTMENTS = {
-  Sales: 'Sales',
-  Marketing: 'Marketing',
-  Engineering: 'Engineering',
-  HR: 'Human Resources',
-  Legal: 'Legal',
-};
-export type Department = typeof DEPARTMENTS[keyof typeof DEPARTMENTS];
-
-export interface Employee {
+// Departments are a catalogue served by the server, an employee references its department by name
+export type Department = string;
+export interface DepartmentRecord {
   id: string;
-  firstName: string;
-  lastName: string;
+  name: Department;
+  employeeCount?: number;
+}
+
+// Employees as sent by the API and stored by the MockServer: the days are written yyyy-MM-dd
+export type EmployeeRecordAttributes = Schemas['EmployeeAttributes'];
+// The personal data the role of the user does not allow to see is null, and listed in maskedFields
+export type EmployeeRecord = Schemas['Employee'];
+export type EmployeeField = Schemas['EmployeeField'];
+export type PersonalDataField = Schemas['PersonalDataField'];
+
+// The days of an employee, decoded by the services into dates at midnight in the local time zone
+export interface EmployeeDates {
   startDate: Date;
-  department: Department;
   dateOfBirth: Date;
-  street: string;
-  city: string;
-  state: StateAbbreviation;
-  zipcode: number;
 }
+// A masked date of birth stays null
+export type WithEmployeeDates<T extends { dateOfBirth: string | null }> = Omit<
+  T,
+  keyof EmployeeDates
+> & {
+  startDate: Date;
+  dateOfBirth: null extends T['dateOfBirth'] ? Date | null : Date;
+};
+
+// Employees as used by the app
+export type EmployeeAttributes = WithEmployeeDates<EmployeeRecordAttributes>;
+export type Employee = WithEmployeeDates<EmployeeRecord>;
+
+// The first error message of every invalid field of an employee
+export type EmployeeValidationErrors = Schemas['EmployeeValidationErrors'];
+
+// Body of the 422 responses of the employee routes
+export type EmployeeValidationErrorResponse =
+  Schemas['EmployeeValidationErrorResponse'];
 
-export interface GetEmployeesResponse {
+export type GetEmployeesResponse = Omit<
+  Schemas['GetEmployeesResponse'],
+  'employees'
+> & {
   employees: Employee[];
-  total: number;
-  page: number;
-  pagesize: number;
+};
+
+/**
+ * Operators understood by the employees GET route filter query language
+ */
+export const FILTER_OPERATORS = [
+  'is',
+  'not',
+  'contains',
+  'startsWith',
+  'endsWith',
+  'in',
+  'between',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'isEmpty',
+  'isNotEmpty',
+] as const;
+export type FilterOperator = typeof FILTER_OPERATORS[number];
+
+export type FilterLogic = 'and' | 'or';
+
+export interface EmployeeFilter {
+  field: EmployeeField;
+  operator: FilterOperator;
+  values: string[];
+}
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * Sort criterion of the employees GET route, the employees without a value coming last whatever the order
+ */
+export interface EmployeeSort {
+  field: EmployeeField;
+  order: SortOrder;
+}
+
+/**
+ * The employees of the employees GET route: limit employees from the offset-th one, whatever the size of the pages of the grid
+ */
+export interface EmployeesRange {
+  offset: number;
+  limit: number;
+}
+
+export interface GetDepartmentsResponse {
+  departments: DepartmentRecord[];
+}
+
+export interface GetDepartmentResponse {
+  department: DepartmentRecord;
+}
+
+// An employee in the org chart, with the number of employees directly reporting to them
+export type EmployeeReportRecord = Schemas['EmployeeReport'];
+export type EmployeeReport = WithEmployeeDates<EmployeeReportRecord>;
+export type GetEmployeeReportsResponse = Schemas['GetEmployeeReportsResponse'];
+
+export type GetEmployeeResponse = Schemas['GetEmployeeResponse'];
+
+// Body of the 412 responses of the updates, with the employee as it is now on the server
+export type EmployeeConflictResponse = Schemas['EmployeeConflictResponse'];
+
+// An update refused with a 412: the employee when the edition started, as edited by the user, and as it is now on the server
+export interface EmployeeConflict {
+  original: Employee;
+  edited: Employee;
+  current: Employee;
+}
+
+// An employee looking like the one being created, with a score from 0 to 1 and what they have in common
+export type DuplicateCandidateRecord = Schemas['DuplicateCandidate'];
+export type DuplicateCandidate = Omit<DuplicateCandidateRecord, 'employee'> & {
+  employee: Employee;
+};
+export type CheckDuplicateEmployeesResponse =
+  Schemas['CheckDuplicateEmployeesResponse'];
+
+export type BulkCreateEmployeesResult = Schemas['BulkCreateEmployeesResult'];
+export type BulkCreateEmployeesResponse =
+  Schemas['BulkCreateEmployeesResponse'];
+
+export type EmployeeChange = Schemas['EmployeeChange'];
+export type AuditAction = Schemas['AuditAction'];
+export type AuditEvent = Schemas['AuditEvent'];
+export type GetEmployeeHistoryResponse = Schemas['GetEmployeeHistoryResponse'];
+
+// 'archive' moves the employees to the former employees, 'update' applies the same changes to all of them
+export type BatchEmployeesRequest = Schemas['BatchEmployeesRequest'];
+export type BatchEmployeesResult = Schemas['BatchEmployeesResult'];
+export type BatchEmployeesResponse = Schemas['BatchEmployeesResponse'];
+
+// Users of the app, signed in with a session whose access token is sent as a bearer token
+export type Role = Schemas['Role'];
+export type User = Schemas['User'];
+export type LoginRequest = Schemas['LoginRequest'];
+export type RefreshSessionRequest = Schemas['RefreshSessionRequest'];
+export type Session = Schemas['Session'];
+
+/**
+ * What a role allows, see ROLE_PERMISSIONS
+ */
+export type Permission =
+  | 'read'
+  | 'viewPersonalData'
+  | 'edit'
+  | 'archive'
+  | 'purge'
+  | 'manageDepartments'
+  | 'resetDemoData';
+
+// Users and sessions as stored by the MockServer
+export interface UserRecord extends User {
+  password: string;
+}
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  // ISO dates
+  accessTokenExpiresAt: string;
+  refreshTokenExpiresAt: string;
 }
 
 export interface QueryOptionsInterface {
   sortModel: GridSortModel;
   filterModel: GridFilterModel;
+  // true to list the former (archived) employees instead of the current ones
+  archived?: boolean;
+}
+
+// The employees are either browsed by pages in the DataGrid, or loaded as the user scrolls a virtualized list
+export type TableMode = 'paginated' | 'scroll';
+
+export interface TableState {
+  page: number;
+  pageSize: number;
+  sortModel: GridSortModel;
+  quickFilterValues: string[];
+  mode: TableMode;
 }
 
 export interface StateCRUD {
   showModalCreate: boolean;
   showModalUpdate: boolean;
   showModalDelete: boolean;
+  showModalPurge: boolean;
+  showModalBatch: boolean;
   showModalResult: boolean;
   result: {
-    type: 'CREATE' | 'UPDATE' | 'DELETE' | undefined;
+    type:
+      | 'CREATE'
+      | 'UPDATE'
+      | 'DELETE'
+      | 'RESTORE'
+      | 'PURGE'
+      | 'BATCH'
+      | undefined;
     error: string | undefined;
   } | null;
   rowUpdateData: {
@@ -122,6 +292,7 @@ export interface StateCRUD {
     reject: ((reason?: unknown) => void | undefined) | undefined;
   } | null;
   rowDeleteId: string | null | undefined;
+  batchRequest: BatchEmployeesRequest | null | undefined;
 }
 
 export interface ActionCRUD {
@@ -129,6 +300,8 @@ export interface ActionCRUD {
     | 'CANCEL'
     | 'CONFIRM_UPDATE'
     | 'CONFIRM_DELETE'
+    | 'CONFIRM_PURGE'
+    | 'CONFIRM_BATCH'
     | 'CONFIRM_CREATE'
     | 'SHOW_RESULT'
     | 'INIT';
@@ -136,5 +309,6 @@ export interface ActionCRUD {
     result: StateCRUD['result'];
     rowUpdateData: StateCRUD['rowUpdateData'];
     rowDeleteId: StateCRUD['rowDeleteId'];
+    batchRequest?: StateCRUD['batchRequest'];
   };
 }
@@ -0,0 +1,84 @@
+/**
+ * @function
+ * @param {string} text - the CSV content
+ * @param {string} [delimiter=','] - the character separating the cells
+ * @returns {string[][]} - the rows of the CSV, each row being an array of cells
+ * @description - this function parses a CSV content following RFC 4180:
+ * cells may be quoted, quotes inside a quoted cell are escaped by doubling them, and lines end with LF or CRLF.
+ * Empty lines are ignored.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const pushRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i += 1) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      pushRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) pushRow();
+
+  return rows;
+}
+
+// The first characters making a spreadsheet read a cell as a formula
+const FORMULA_PATTERN = /^[=+\-@\t\r]/;
+
+/**
+ * @function
+ * @param {unknown} value - the value of the cell
+ * @param {string} delimiter - the character separating the cells
+ * @returns {string} - the cell, quoted if it contains a delimiter, a quote or a line break.
+ * A text starting like a formula is prefixed with a quote, so that a spreadsheet shows it instead of running it.
+ */
+function escapeCsvCell(value: unknown, delimiter: string): string {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PATTERN.test(text)) {
+    text = `'${text}`;
+  }
+  if (/["\r\n]/.test(text) || text.includes(delimiter)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * @function
+ * @param {unknown[][]} rows - the rows to write, the first one usually being the header
+ * @param {string} [delimiter=','] - the character separating the cells
+ * @returns {string} - the CSV content, lines ending with CRLF as in RFC 4180
+ */
+export function toCsv(rows: unknown[][], delimiter = ','): string {
+  return rows
+    .map((row) =>
+      row.map((cell) => escapeCsvCell(cell, delimiter)).join(delimiter)
+    )
+    .join('\r\n');
+}
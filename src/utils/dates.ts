@@ -0,0 +1,38 @@
+import { format, isValid, parse } from 'date-fns';
+
+/**
+ * Wire format of the days of the employees API (start date, date of birth):
+ * an ISO 8601 calendar date, without time nor time zone, so that a day is the same day everywhere
+ */
+export const WIRE_DATE_FORMAT = 'yyyy-MM-dd';
+
+const WIRE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * @function
+ * @param {string} value - the day, written yyyy-MM-dd
+ * @returns {Date} - the day at midnight in the local time zone, an invalid date if the value is not a day
+ * @description - new Date('2020-01-31') would give midnight UTC, which is the day before in America.
+ */
+export function parseWireDate(value: string): Date {
+  if (!WIRE_DATE_PATTERN.test(value)) return new Date(NaN);
+  return parse(value, WIRE_DATE_FORMAT, new Date());
+}
+
+/**
+ * @function
+ * @param {unknown} value - the value to check
+ * @returns {boolean} - true if the value is an existing day written yyyy-MM-dd
+ */
+export function isWireDate(value: unknown): value is string {
+  return typeof value === 'string' && isValid(parseWireDate(value));
+}
+
+/**
+ * @function
+ * @param {Date} date - the date, e.g. picked in a date picker
+ * @returns {string} - the day of the date in the local time zone, written yyyy-MM-dd
+ */
+export function formatWireDate(date: Date): string {
+  return format(date, WIRE_DATE_FORMAT);
+}
@@ -0,0 +1,90 @@
+import { isValid } from 'date-fns';
+
+import type {
+  Employee,
+  EmployeeChange,
+  EmployeeField,
+  EmployeeRecord,
+} from '@types';
+import { formatWireDate } from './dates';
+
+/**
+ * Display name of every employee field
+ */
+export const EMPLOYEE_FIELD_LABELS: Record<EmployeeField, string> = {
+  firstName: 'First name',
+  lastName: 'Last name',
+  startDate: 'Start Date',
+  department: 'Department',
+  dateOfBirth: 'Date of Birth',
+  street: 'Street',
+  city: 'City',
+  state: 'State',
+  zipcode: 'Zip Code',
+  managerId: 'Manager',
+};
+
+const DATE_FIELDS: EmployeeField[] = ['startDate', 'dateOfBirth'];
+
+/**
+ * @function
+ * @param {EmployeeField} field - the field of the employee
+ * @param {unknown} value - the value of the field
+ * @returns {string | number | null} - the value comparable between the client and the server: dates are days formatted yyyy-MM-dd
+ */
+function normalizeFieldValue(
+  field: EmployeeField,
+  value: unknown
+): string | number | null {
+  if (value === undefined || value === null || value === '') return null;
+  // The dates of the client are compared as the days sent to the server, which keeps the days as sent
+  if (DATE_FIELDS.includes(field) && value instanceof Date) {
+    return isValid(value) ? formatWireDate(value) : String(value);
+  }
+  if (typeof value === 'number') return value;
+  return String(value);
+}
+
+/**
+ * @function
+ * @param {Partial<Employee> | Partial<EmployeeRecord> | undefined} before - the employee before the change, undefined for a creation
+ * @param {Partial<Employee> | Partial<EmployeeRecord> | undefined} after - the employee after the change, undefined for a deletion
+ * @returns {EmployeeChange[]} - the field-level diff between both employees
+ * @description - this function compares every field of the employee, dates being compared by day.
+ */
+export function computeEmployeeChanges(
+  before: Partial<Employee> | Partial<EmployeeRecord> | undefined,
+  after: Partial<Employee> | Partial<EmployeeRecord> | undefined
+): EmployeeChange[] {
+  const changes: EmployeeChange[] = [];
+
+  (Object.keys(EMPLOYEE_FIELD_LABELS) as EmployeeField[]).forEach((field) => {
+    const beforeValue = normalizeFieldValue(field, before?.[field]);
+    const afterValue = normalizeFieldValue(field, after?.[field]);
+    if (beforeValue !== afterValue) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * @function
+ * @param {Employee} current - the employee as it is now on the server
+ * @param {Employee} original - the employee when the user started editing it
+ * @param {Employee} edited - the employee as edited by the user
+ * @returns {Employee} - the current employee with the fields edited by the user, and the current version
+ * @description - this function keeps the changes made by someone else to the fields the user did not edit.
+ */
+export function mergeEmployeeEdits(
+  current: Employee,
+  original: Employee,
+  edited: Employee
+): Employee {
+  const edits = computeEmployeeChanges(original, edited).map(({ field }) => [
+    field,
+    edited[field],
+  ]);
+  return { ...current, ...Object.fromEntries(edits), version: current.version };
+}
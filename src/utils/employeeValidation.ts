@@ -0,0 +1,96 @@
+import * as Yup from 'yup';
+import { differenceInYears } from 'date-fns';
+
+import type { EmployeeField, EmployeeValidationErrors } from '@types';
+import { STATES } from '@types';
+import { EMPLOYEE_FIELD_LABELS } from './employeeChanges';
+
+/**
+ * Yup validation rules of an employee, shared by the employee form, the grid editor, the import and the mock server
+ */
+export const employeeValidationSchema = Yup.object({
+  firstName: Yup.string().required('Required'),
+  lastName: Yup.string().required('Required'),
+  dateOfBirth: Yup.date()
+    .typeError('Invalid date, must be : dd/mm/yyyy')
+    .required('Required')
+    .test('legal-age-check', 'You must be over 18 years or older', (date) => {
+      if (!date) return false;
+      const age = differenceInYears(new Date(), date);
+      if (age > 18) {
+        return true;
+      }
+      return false;
+    }),
+  startDate: Yup.date()
+    .typeError('Invalid date, must be : dd/mm/yyyy')
+    .required('Required'),
+  street: Yup.string().required('Required'),
+  city: Yup.string().required('Required'),
+  // A text, so that the leading zeros are kept
+  zipcode: Yup.string()
+    .strict()
+    .typeError('Invalid zip code, must be 5 digits')
+    .required('Required')
+    .matches(/^\d{5}$/, 'Invalid zip code, must be 5 digits'),
+  state: Yup.string()
+    .required('Required')
+    .oneOf(Object.keys(STATES), 'Invalid state'),
+  // The department select only offers the departments of the catalogue, the server checks it exists
+  department: Yup.string().required('Required'),
+  // The server checks the manager exists and that the hierarchy stays free of cycles
+  managerId: Yup.string().nullable(),
+});
+
+/**
+ * @function
+ * @param {unknown} values - the employee to validate, form values or employee attributes
+ * @returns {EmployeeValidationErrors} - the first error message of every invalid field, empty if the employee is valid
+ */
+export function validateEmployee(values: unknown): EmployeeValidationErrors {
+  try {
+    employeeValidationSchema.validateSync(values, { abortEarly: false });
+    return {};
+  } catch (err) {
+    if (!(err instanceof Yup.ValidationError)) throw err;
+    const errors: EmployeeValidationErrors = {};
+    err.inner.forEach(({ path, message }) => {
+      const field = path as EmployeeField;
+      if (field && !errors[field]) errors[field] = message;
+    });
+    return errors;
+  }
+}
+
+/**
+ * @function
+ * @param {EmployeeField} field - the field to validate
+ * @param {unknown} values - the employee holding the field, form values or employee attributes
+ * @returns {string | undefined} - the error message of the field, undefined if the value is valid
+ */
+export function validateEmployeeField(
+  field: EmployeeField,
+  values: unknown
+): string | undefined {
+  try {
+    employeeValidationSchema.validateSyncAt(field, values);
+    return undefined;
+  } catch (err) {
+    if (err instanceof Yup.ValidationError) return err.message;
+    throw err;
+  }
+}
+
+/**
+ * @function
+ * @param {EmployeeValidationErrors} errors - the error message of every invalid field
+ * @returns {string[]} - the error messages, prefixed by the label of their field
+ */
+export function formatEmployeeValidationErrors(
+  errors: EmployeeValidationErrors
+): string[] {
+  return Object.entries(errors).map(
+    ([field, message]) =>
+      `${EMPLOYEE_FIELD_LABELS[field as EmployeeField] ?? field}: ${message}`
+  );
+}
@@ -1,3 +1,10 @@
-import computeErrorFromQuery from './utils';
+import computeErrorFromQuery, { computeFieldErrorsFromQuery } from './utils';
 
+export * from './csv';
+export * from './dates';
+export * from './employeeChanges';
+export * from './employeeValidation';
+export * from './permissions';
+export * from './privacy';
+export { computeFieldErrorsFromQuery };
 export default computeErrorFromQuery;
@@ -0,0 +1,47 @@
+import type { Permission, Role, User } from '@types';
+
+/**
+ * Display name of every role
+ */
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer',
+  hrEditor: 'HR editor',
+  admin: 'Administrator',
+};
+
+/**
+ * What every role allows, shared by the client hiding the actions and the server enforcing them:
+ *  - read: list and view the employees, their history, the org chart and the departments
+ *  - viewPersonalData: see the personal data of the employees, masked for the other roles, see PERSONAL_DATA_VISIBILITY
+ *  - edit: create, import and update the employees
+ *  - archive: delete (archive) and restore the employees
+ *  - purge: permanently delete the former employees
+ *  - manageDepartments: add, rename and delete the departments
+ *  - resetDemoData: replace the whole database with the demo data
+ */
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  viewer: ['read'],
+  hrEditor: ['read', 'viewPersonalData', 'edit', 'archive'],
+  admin: [
+    'read',
+    'viewPersonalData',
+    'edit',
+    'archive',
+    'purge',
+    'manageDepartments',
+    'resetDemoData',
+  ],
+};
+
+/**
+ * @function
+ * @param {Pick<User, 'role'> | null | undefined} user - the signed in user, null if nobody is signed in
+ * @param {Permission} permission - what the user wants to do
+ * @returns {boolean} - true if the role of the user allows it
+ */
+export function hasPermission(
+  user: Pick<User, 'role'> | null | undefined,
+  permission: Permission
+): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role]?.includes(permission);
+}
@@ -0,0 +1,112 @@
+import type {
+  AuditEvent,
+  EmployeeField,
+  EmployeeRecord,
+  Permission,
+  PersonalDataField,
+  User,
+} from '@types';
+import { parseWireDate } from './dates';
+import { hasPermission } from './permissions';
+
+/**
+ * The permission needed to see every field of the personal data of the employees,
+ * shared by the server masking the values and the client rendering the masked ones:
+ *  - dateOfBirth: the other roles only get the year of birth
+ *  - street, zipcode: the other roles only get a city-level address
+ */
+export const PERSONAL_DATA_VISIBILITY: Record<PersonalDataField, Permission> = {
+  dateOfBirth: 'viewPersonalData',
+  street: 'viewPersonalData',
+  zipcode: 'viewPersonalData',
+};
+
+const PERSONAL_DATA_FIELDS = Object.keys(
+  PERSONAL_DATA_VISIBILITY
+) as PersonalDataField[];
+
+/**
+ * @function
+ * @param {Pick<User, 'role'> | null | undefined} user - the signed in user, null if nobody is signed in
+ * @returns {PersonalDataField[]} - the personal data the role of the user does not allow to see
+ */
+export function getMaskedFields(
+  user: Pick<User, 'role'> | null | undefined
+): PersonalDataField[] {
+  return PERSONAL_DATA_FIELDS.filter(
+    (field) => !hasPermission(user, PERSONAL_DATA_VISIBILITY[field])
+  );
+}
+
+/**
+ * @function
+ * @param {PersonalDataField[] | undefined} maskedFields - the masked fields, e.g. of an employee sent by the server
+ * @param {EmployeeField} field - a field of the employees
+ * @returns {boolean} - true if the value of the field is masked
+ */
+export function isFieldMasked(
+  maskedFields: PersonalDataField[] | undefined,
+  field: EmployeeField
+): boolean {
+  return maskedFields?.some((masked) => masked === field) ?? false;
+}
+
+/**
+ * @function
+ * @param {EmployeeRecord} employee - the employee as stored
+ * @param {Pick<User, 'role'>} user - the user the employee is sent to
+ * @returns {EmployeeRecord} - the employee, whose personal data hidden from the user is null and listed in maskedFields.
+ * The year of birth is sent instead of a masked date of birth.
+ */
+export function maskPersonalData<T extends EmployeeRecord>(
+  employee: T,
+  user: Pick<User, 'role'>
+): T {
+  const maskedFields = getMaskedFields(user);
+  if (!maskedFields.length) return employee;
+  return {
+    ...employee,
+    ...Object.fromEntries(maskedFields.map((field) => [field, null])),
+    maskedFields,
+    ...(isFieldMasked(maskedFields, 'dateOfBirth') && employee.dateOfBirth
+      ? { birthYear: parseWireDate(employee.dateOfBirth).getFullYear() }
+      : {}),
+  };
+}
+
+/**
+ * @function
+ * @param {AuditEvent} event - an event of the history of an employee
+ * @param {Pick<User, 'role'>} user - the user the event is sent to
+ * @returns {AuditEvent} - the event, whose changes of the personal data hidden from the user have null values and are flagged as masked
+ */
+export function maskAuditEvent(
+  event: AuditEvent,
+  user: Pick<User, 'role'>
+): AuditEvent {
+  const maskedFields = getMaskedFields(user);
+  return {
+    ...event,
+    changes: event.changes.map((change) =>
+      isFieldMasked(maskedFields, change.field)
+        ? { ...change, before: null, after: null, masked: true }
+        : change
+    ),
+  };
+}
+
+/**
+ * @function
+ * @param {Pick<EmployeeRecord, 'birthYear'>} employee - an employee sent by the server
+ * @param {EmployeeField} field - a masked field of the employee
+ * @returns {string} - what the user may know of the value: the year of birth of a masked date of birth
+ */
+export function describeMaskedValue(
+  employee: Pick<EmployeeRecord, 'birthYear'>,
+  field: EmployeeField
+): string {
+  if (field === 'dateOfBirth' && employee.birthYear) {
+    return `Born in ${employee.birthYear}`;
+  }
+  return 'Hidden';
+}
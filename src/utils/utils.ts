@@ -1,5 +1,7 @@
 import axios from 'axios';
 
+import type { EmployeeValidationErrors } from '@types';
+
 /**
  * @function
  * @param {unknown} err - the error object to process
@@ -18,4 +20,20 @@ function computeErrorFromQuery(err: unknown): string {
   return 'Unknown error, look in the devTool console';
 }
 
+/**
+ * @function
+ * @param {unknown} err - the error object to process
+ * @returns {EmployeeValidationErrors} - the error message of every invalid field
+ * @description - this function extracts the field-keyed error map of the 422 responses of the server,
+ * so that the errors can be shown on the offending fields. It returns an empty object for any other error.
+ */
+export function computeFieldErrorsFromQuery(
+  err: unknown
+): EmployeeValidationErrors {
+  if (axios.isAxiosError(err) && err.response?.status === 422) {
+    return err.response.data?.errors ?? {};
+  }
+  return {};
+}
+
 export default computeErrorFromQuery;
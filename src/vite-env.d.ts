@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL: string;
+  readonly VITE_DATABASE_LENGTH: string;
+  readonly VITE_PAGE_LENGTH: string;
+  readonly VITE_FAKER_SEED?: string;
+  readonly VITE_API_BACKEND?: 'mirage' | 'rest';
+  readonly VITE_REST_API_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
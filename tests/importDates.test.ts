@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseImportDate } from '../src/components/ImportEmployees/utils';
+
+describe('parseImportDate', () => {
+  it.each(['15/01/2020', '2020-01-15', ' 15/1/2020 '])(
+    'reads %s as the 15th of January 2020',
+    (raw) => {
+      expect(parseImportDate(raw)).toEqual(new Date(2020, 0, 15));
+    }
+  );
+
+  it('reads the 29th of February of a leap year', () => {
+    expect(parseImportDate('29/02/2020')).toEqual(new Date(2020, 1, 29));
+  });
+
+  it.each([
+    '31/02/2020',
+    '29/02/2021',
+    '2020-13-01',
+    '2020-04-31',
+    '00/01/2020',
+  ])('keeps %s, which is not a day, for the validation to report it', (raw) => {
+    expect(parseImportDate(raw)).toBe(raw);
+  });
+});
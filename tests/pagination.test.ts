@@ -0,0 +1,210 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+
+import type { Employee, EmployeeRecord, GetEmployeesResponse } from '@types';
+import type { RouteRequest } from '../src/RestServer/routeTable';
+import { MAX_LIMIT, parseRange } from '../src/MockServer/pagination';
+
+// The page sizes of the grid
+const PAGE_SIZES = [10, 25, 50, 100];
+// 3 employees more than a multiple of every page size: each of them ends with a partial page
+const DATABASE_LENGTH = 1003;
+const NAMESPACE = '/api';
+const EMPLOYEES_PATH = `${NAMESPACE}/employees/page/0/sort/lastName_firstName/asc_asc/filters/noFilter`;
+
+type Send = (
+  method: string,
+  path: string,
+  options?: Partial<Pick<RouteRequest, 'queryParams' | 'requestHeaders'>> & {
+    body?: unknown;
+  }
+) => Promise<{ status: number; data: unknown }>;
+
+let send: Send;
+let token: string;
+
+// The services talk to the routes of the MockServer instead of the network
+vi.mock('../src/services/lib/axios', () => ({
+  default: {
+    get: async (url: string, config?: { params?: Record<string, unknown> }) => {
+      const queryParams: Record<string, string> = {};
+      Object.entries(config?.params ?? {}).forEach(([key, value]) => {
+        if (value !== undefined) queryParams[key] = String(value);
+      });
+      const { status, data } = await send('GET', `${NAMESPACE}${url}`, {
+        queryParams,
+        requestHeaders: { Authorization: `Bearer ${token}` },
+      });
+      if (status >= 400) throw new Error(`GET ${url} failed with ${status}`);
+      return { data, headers: {} };
+    },
+  },
+}));
+
+beforeAll(async () => {
+  // Mirage seeds no data in its test environment
+  vi.stubEnv('MODE', 'development');
+  vi.stubEnv('VITE_API_URL', NAMESPACE);
+  vi.stubEnv('VITE_DATABASE_LENGTH', String(DATABASE_LENGTH));
+  vi.stubEnv('VITE_FAKER_SEED', '14');
+
+  const { createRouteTable } = await import('../src/RestServer/routeTable');
+  const { default: MockServer } = await import('../src/MockServer/MockServer');
+  const { interceptor, findRoute } = createRouteTable();
+  MockServer({ interceptor });
+
+  send = async (method, path, options = {}) => {
+    const match = findRoute(method, path);
+    if (!match) throw new Error(`No route for ${method} ${path}`);
+    const [status, , body] = await match.route.handle({
+      method,
+      url: path,
+      params: match.params,
+      queryParams: options.queryParams ?? {},
+      requestBody: JSON.stringify(options.body ?? null),
+      requestHeaders: options.requestHeaders ?? {},
+    });
+    return { status, data: body ? JSON.parse(body) : undefined };
+  };
+
+  const { data } = await send('POST', `${NAMESPACE}/auth/login`, {
+    body: { username: 'viewer', password: 'viewer' },
+  });
+  token = (data as { accessToken: string }).accessToken;
+});
+
+/**
+ * @param offset - the index of the first employee
+ * @param limit - the number of employees
+ * @returns The response of the employees route for the range
+ */
+const getEmployees = async (offset: number, limit: number) => {
+  const { status, data } = await send('GET', EMPLOYEES_PATH, {
+    queryParams: { offset: String(offset), limit: String(limit) },
+    requestHeaders: { Authorization: `Bearer ${token}` },
+  });
+  expect(status).toBe(200);
+  return data as { employees: EmployeeRecord[]; total: number };
+};
+
+/**
+ * @returns The ids of all the sorted employees, walking the largest ranges
+ */
+const getAllEmployeeIds = async () => {
+  const ids: string[] = [];
+  let total = Infinity;
+  while (ids.length < total) {
+    // eslint-disable-next-line no-await-in-loop
+    const page = await getEmployees(ids.length, MAX_LIMIT);
+    total = page.total;
+    ids.push(...page.employees.map((employee) => employee.id));
+  }
+  return ids;
+};
+
+describe('parseRange', () => {
+  it('sends the page of the path when no offset and limit are given', () => {
+    expect(parseRange('2', undefined, undefined, 100)).toEqual({
+      offset: 200,
+      limit: 100,
+    });
+    expect(parseRange(undefined, undefined, undefined, 100)).toEqual({
+      offset: 0,
+      limit: 100,
+    });
+  });
+
+  it('sends the range of the offset and the limit, whatever the page', () => {
+    expect(parseRange('0', '25', '25', 100)).toEqual({ offset: 25, limit: 25 });
+    expect(parseRange('3', '30', '10', 100)).toEqual({ offset: 30, limit: 10 });
+  });
+
+  it('keeps the default limit under the largest one', () => {
+    expect(parseRange('1', undefined, undefined, 1000)).toEqual({
+      offset: MAX_LIMIT,
+      limit: MAX_LIMIT,
+    });
+  });
+
+  it.each([
+    ['-1', undefined, undefined],
+    [undefined, '-5', '10'],
+    [undefined, '1.5', '10'],
+    [undefined, '0', '0'],
+    [undefined, '0', String(MAX_LIMIT + 1)],
+    [undefined, 'abc', '10'],
+  ])('refuses page %s, offset %s and limit %s', (page, offset, limit) => {
+    expect(() => parseRange(page, offset, limit, 100)).toThrow(/^Invalid/);
+  });
+});
+
+describe('the employees route', () => {
+  it('refuses an invalid range with 400', async () => {
+    const { status } = await send('GET', EMPLOYEES_PATH, {
+      queryParams: { offset: '0', limit: String(MAX_LIMIT + 1) },
+      requestHeaders: { Authorization: `Bearer ${token}` },
+    });
+    expect(status).toBe(400);
+  });
+
+  it.each(PAGE_SIZES)(
+    'sends exactly the rows of every page of %i rows, the last partial one included',
+    async (pageSize) => {
+      const ids = await getAllEmployeeIds();
+      expect(ids).toHaveLength(DATABASE_LENGTH);
+      const pageCount = Math.ceil(ids.length / pageSize);
+      expect(ids.length % pageSize).not.toBe(0);
+
+      for (let page = 0; page < pageCount; page += 1) {
+        // eslint-disable-next-line no-await-in-loop
+        const { employees, total } = await getEmployees(
+          page * pageSize,
+          pageSize
+        );
+        expect(total).toBe(ids.length);
+        expect(employees.map((employee) => employee.id)).toEqual(
+          ids.slice(page * pageSize, (page + 1) * pageSize)
+        );
+      }
+      const lastPage = await getEmployees((pageCount - 1) * pageSize, pageSize);
+      expect(lastPage.employees).toHaveLength(ids.length % pageSize);
+    }
+  );
+
+  it('sends no employee after the last one', async () => {
+    const { employees, total } = await getEmployees(DATABASE_LENGTH, 10);
+    expect(employees).toEqual([]);
+    expect(total).toBe(DATABASE_LENGTH);
+  });
+});
+
+describe('fetchEmployees', () => {
+  it.each(PAGE_SIZES)(
+    'fetches the rows of the first, a middle and the last page of %i rows',
+    async (pageSize) => {
+      const { fetchEmployees } = await import('../src/services/services');
+      const sortModel = [
+        { field: 'lastName', sort: 'asc' as const },
+        { field: 'firstName', sort: 'asc' as const },
+      ];
+      const ids = await getAllEmployeeIds();
+      const pageCount = Math.ceil(ids.length / pageSize);
+
+      const pages = [0, Math.floor(pageCount / 2), pageCount - 1];
+      const responses: GetEmployeesResponse[] = await Promise.all(
+        pages.map((page) =>
+          fetchEmployees(
+            { offset: page * pageSize, limit: pageSize },
+            sortModel
+          )
+        )
+      );
+      responses.forEach(({ employees, total }, index) => {
+        const page = pages[index];
+        expect(total).toBe(ids.length);
+        expect(employees.map((employee: Employee) => employee.id)).toEqual(
+          ids.slice(page * pageSize, (page + 1) * pageSize)
+        );
+      });
+    }
+  );
+});
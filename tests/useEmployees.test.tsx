@@ -0,0 +1,105 @@
+// @vitest-environment jsdom
+import { ReactNode } from 'react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+
+import type { QueryOptionsInterface } from '@types';
+import { useEmployees, usePrefetchEmployees } from '../src/services/services';
+
+// A page size of the grid other than the default one, and a total ending with a partial page
+const PAGE_SIZE = 25;
+const TOTAL = 1003;
+
+const QUERY_OPTIONS: QueryOptionsInterface = {
+  sortModel: [{ field: 'lastName', sort: 'asc' }],
+  filterModel: { items: [] },
+};
+
+// The services get an empty range of the total employees instead of calling the network
+const get = vi.hoisted(() =>
+  vi.fn(async () => ({ data: { total: TOTAL, employees: [] }, headers: {} }))
+);
+vi.mock('../src/services/lib/axios', () => ({ default: { get } }));
+
+/**
+ * @returns The query client of the test and the wrapper providing it to the hooks
+ */
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false } },
+  });
+  function Wrapper({ children }: { children: ReactNode }) {
+    return (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+  }
+  return { queryClient, wrapper: Wrapper };
+};
+
+/**
+ * @returns The path and the range of every request sent to the employees route
+ */
+const sentRequests = () =>
+  (get.mock.calls as unknown as [string, { params: object }][]).map(
+    ([url, { params }]) => ({ url, params })
+  );
+
+afterEach(() => {
+  get.mockClear();
+});
+
+describe('useEmployees', () => {
+  it('fetches the offset and the limit of the page of the grid', async () => {
+    const { queryClient, wrapper } = createWrapper();
+    const { result } = renderHook(
+      () => useEmployees(3, PAGE_SIZE, true, QUERY_OPTIONS),
+      { wrapper }
+    );
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+    expect(sentRequests()).toEqual([
+      {
+        url: '/employees/page/3/sort/lastName/asc/filters/noFilter',
+        params: expect.objectContaining({ offset: 75, limit: PAGE_SIZE }),
+      },
+    ]);
+    expect(
+      queryClient.getQueryData([
+        'employees',
+        { offset: 75, limit: PAGE_SIZE },
+        QUERY_OPTIONS,
+      ])
+    ).toEqual({ total: TOTAL, employees: [] });
+  });
+});
+
+describe('usePrefetchEmployees', () => {
+  it('prefetches the neighbouring pages and the last partial page with the page size', async () => {
+    const { queryClient, wrapper } = createWrapper();
+    renderHook(() => usePrefetchEmployees(0, PAGE_SIZE, TOTAL, QUERY_OPTIONS), {
+      wrapper,
+    });
+    await waitFor(() => expect(get).toHaveBeenCalledTimes(5));
+
+    // The last page, the 41st, holds the 3 last employees
+    const offsets = [25, 50, 75, 100, 1000];
+    expect(sentRequests().map(({ params }) => params)).toEqual(
+      offsets.map((offset) =>
+        expect.objectContaining({ offset, limit: PAGE_SIZE })
+      )
+    );
+    expect(
+      queryClient
+        .getQueryCache()
+        .findAll(['employees'])
+        .map(({ queryKey }) => queryKey)
+    ).toEqual(
+      offsets.map((offset) => [
+        'employees',
+        { offset, limit: PAGE_SIZE },
+        QUERY_OPTIONS,
+      ])
+    );
+  });
+});
@@ -5,7 +5,8 @@ import react from '@vitejs/plugin-react';
 import tsconfigPaths from 'vite-tsconfig-paths';
 
 // https://vitejs.dev/config/
-export default defineConfig({
+export default defineConfig(({ mode }) => ({
   base: `/PierreCourant_14_14112022/`,
-  plugins: [react(), tsconfigPaths()],
-});
+  // The tests render the components without the fast refresh runtime
+  plugins: [react({ fastRefresh: mode !== 'test' }), tsconfigPaths()],
+}));